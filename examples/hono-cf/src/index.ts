@@ -1,6 +1,6 @@
 import { Hono } from "hono";
-import { wideLogger } from "hono-wide-logger";
-import type { WideEvent, Logger, Storage } from "hono-wide-logger";
+import { createEventStore, wideLogger } from "hono-wide-logger";
+import type { WideEvent, Logger } from "hono-wide-logger";
 
 // ==========================================
 // EXAMPLE 1: Basic Usage with Default Options
@@ -64,28 +64,15 @@ app2.get("/", (c) => {
 });
 
 // ==========================================
-// EXAMPLE 3: Custom Storage (In-Memory for Demo)
+// EXAMPLE 3: Queryable Storage (Built-in In-Memory Store)
 // ==========================================
-const memoryStore = new Map<string, any>();
-
-const customStorage: Storage = {
-  set: async (key, value) => {
-    memoryStore.set(key, value);
-    console.log(`[STORAGE] Saved event with key: ${key}`);
-  },
-  get: async (key) => {
-    return memoryStore.get(key);
-  },
-  delete: async (key) => {
-    memoryStore.delete(key);
-  },
-};
+const eventStore = createEventStore({ maxEvents: 1000 });
 
 const app3 = new Hono();
 app3.use(
   "*",
   wideLogger({
-    storage: customStorage,
+    storage: eventStore,
     sampleRate: 1.0, // Log everything for demo
   }),
 );
@@ -107,21 +94,21 @@ app3.get("/", (c) => {
   return c.json({
     message: "Storage example - event saved to in-memory store",
     requestId: c.get("wide-logger").getEvent().request_id,
-    storedEventsCount: memoryStore.size,
+    storedEventsCount: eventStore.size,
   });
 });
 
-// Retrieve stored events
-app3.get("/events", async (c) => {
-  const events = Array.from(memoryStore.entries()).map(([key, value]) => ({
-    key,
-    event: value,
-  }));
-
-  return c.json({
-    totalEvents: events.length,
-    events,
-  });
+// Query stored events, e.g. /events?where=status_code>=500&sort=-duration_ms
+app3.get("/events", (c) => {
+  return c.json(
+    eventStore.query({
+      where: c.req.queries("where"),
+      since: c.req.query("since"),
+      sort: c.req.query("sort"),
+      limit: Number(c.req.query("limit") ?? 50),
+      offset: Number(c.req.query("offset") ?? 0),
+    }),
+  );
 });
 
 // ==========================================
@@ -301,8 +288,9 @@ app.get("/", (c) => {
     endpoints: {
       "GET /basic": "Basic usage with default options",
       "GET /custom-logger": "Custom logger with prefixed output",
-      "GET /storage": "Custom storage (in-memory)",
-      "GET /storage/events": "Retrieve all stored events",
+      "GET /storage": "Built-in event store (in-memory)",
+      "GET /storage/events":
+        "Query stored events (where, since, sort, limit, offset)",
       "GET /sampling": "Custom sampling (50% of GETs)",
       "POST /sampling": "POST always logged (100%)",
       "GET /error/throw-error": "Unhandled error (throws)",
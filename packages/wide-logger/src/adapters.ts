@@ -0,0 +1,179 @@
+import type { EventLogger, LogLevel, WideEvent } from "./types";
+
+type LogMethod = (...args: any[]) => void;
+
+/**
+ * The parts of a pino logger the adapter uses
+ */
+export interface PinoLike {
+  debug: LogMethod;
+  info: LogMethod;
+  warn: LogMethod;
+  error: LogMethod;
+}
+
+/**
+ * The parts of a winston logger the adapter uses
+ */
+export interface WinstonLike {
+  debug: LogMethod;
+  info: LogMethod;
+  warn: LogMethod;
+  error: LogMethod;
+}
+
+/**
+ * Options for the pretty printer
+ */
+export interface PrettyLoggerOptions {
+  /**
+   * Colorize status, duration and level
+   * @default true
+   */
+  colors?: boolean;
+
+  /**
+   * Where lines go
+   * @default console.log
+   */
+  write?: (line: string) => void;
+}
+
+// Short human-readable summary, used as the log message
+const summarize = (event: WideEvent) =>
+  `${event.method} ${event.route ?? event.path} ${event.status_code ?? "-"}`;
+
+/**
+ * Adapt a pino logger
+ * Events are passed as the merging object, so every field becomes a native
+ * pino field, at the level matching the outcome.
+ *
+ * @example
+ * ```typescript
+ * import pino from 'pino';
+ * app.use('*', wideLogger({ logger: pinoAdapter(pino()) }));
+ * ```
+ */
+export function pinoAdapter(pino: PinoLike): EventLogger {
+  // pino takes the object first; errors go under `err` for its serializer
+  const forward =
+    (level: LogLevel) =>
+    (message: string, ...args: any[]) => {
+      if (args.length === 0) pino[level](message);
+      else if (args[0] instanceof Error) pino[level]({ err: args[0] }, message);
+      else pino[level]({ args }, message);
+    };
+
+  return {
+    log: forward("info"),
+    debug: forward("debug"),
+    info: forward("info"),
+    warn: forward("warn"),
+    error: forward("error"),
+    event: (event, level) => {
+      // pino writes its own numeric level; don't emit a second one
+      const { level: _, ...fields } = event;
+      pino[level](fields, summarize(event));
+    },
+  };
+}
+
+/**
+ * Adapt a winston logger
+ * Events are passed as metadata, so formats and transports see the fields.
+ *
+ * @example
+ * ```typescript
+ * import winston from 'winston';
+ * const logger = winston.createLogger({ format: winston.format.json(), ... });
+ * app.use('*', wideLogger({ logger: winstonAdapter(logger) }));
+ * ```
+ */
+export function winstonAdapter(winston: WinstonLike): EventLogger {
+  return {
+    log: (message, ...args) => winston.info(message, ...args),
+    debug: (message, ...args) => winston.debug(message, ...args),
+    info: (message, ...args) => winston.info(message, ...args),
+    warn: (message, ...args) => winston.warn(message, ...args),
+    error: (message, ...args) => winston.error(message, ...args),
+    event: (event, level) => winston[level](summarize(event), event),
+  };
+}
+
+const ansi = {
+  reset: "\x1b[0m",
+  dim: "\x1b[2m",
+  red: "\x1b[31m",
+  green: "\x1b[32m",
+  yellow: "\x1b[33m",
+  cyan: "\x1b[36m",
+};
+
+/**
+ * Human-readable logger for local development
+ * One line per event - time, level, method, route, status, duration and
+ * request ID - plus the error message when there is one.
+ *
+ * @example
+ * ```typescript
+ * wideLogger({ logger: isDev ? prettyLogger() : console });
+ * // 10:23:45 INFO  GET /users/:id 200 12ms req_8f2a...
+ * ```
+ */
+export function prettyLogger(options: PrettyLoggerOptions = {}): EventLogger {
+  const colors = options.colors ?? true;
+  const write = options.write ?? ((line: string) => console.log(line));
+
+  const paint = (color: keyof typeof ansi, text: string) =>
+    colors ? `${ansi[color]}${text}${ansi.reset}` : text;
+
+  const statusColor = (status = 0): keyof typeof ansi => {
+    if (status >= 500) return "red";
+    if (status >= 400) return "yellow";
+    if (status >= 300) return "cyan";
+    return "green";
+  };
+
+  const levelColor: Record<LogLevel, keyof typeof ansi> = {
+    debug: "dim",
+    info: "green",
+    warn: "yellow",
+    error: "red",
+  };
+
+  const line =
+    (level: LogLevel) =>
+    (message: string, ...args: any[]) =>
+      write(
+        [paint(levelColor[level], level.toUpperCase()), message, ...args]
+          .map(String)
+          .join(" "),
+      );
+
+  return {
+    log: line("info"),
+    debug: line("debug"),
+    info: line("info"),
+    warn: line("warn"),
+    error: line("error"),
+    event: (event, level) => {
+      const time = event.timestamp?.slice(11, 19) ?? "";
+      const duration = `${event.duration_ms ?? "-"}ms`;
+      const parts = [
+        paint("dim", time),
+        paint(levelColor[level], level.toUpperCase().padEnd(5)),
+        event.method,
+        event.route ?? event.path,
+        paint(statusColor(event.status_code), String(event.status_code ?? "-")),
+        level === "warn" ? paint("yellow", duration) : duration,
+        paint("dim", event.request_id),
+      ];
+      write(parts.join(" "));
+      if (event.error) {
+        write(
+          `  ${paint("red", `${event.error.type}: ${event.error.message}`)}`,
+        );
+      }
+    },
+  };
+}
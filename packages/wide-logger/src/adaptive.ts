@@ -0,0 +1,154 @@
+import type { ContextSchema, SampleBy, SamplingRule, WideEvent } from "./types";
+import { rate } from "./sampling";
+
+/**
+ * Options for the adaptive sampler
+ */
+export interface AdaptiveSamplerOptions {
+  /**
+   * Events per second to keep, shared evenly across active keys
+   */
+  targetEventsPerSecond: number;
+
+  /**
+   * Length of the sliding window throughput is measured over
+   * @default 10_000
+   */
+  windowMs?: number;
+
+  /**
+   * Events always kept per key per window, however hot the key is
+   * @default 1
+   */
+  minPerKey?: number;
+
+  /**
+   * Keys tracked at once; traffic for further keys shares one bucket
+   * @default 1000
+   */
+  maxKeys?: number;
+
+  /**
+   * Traffic key
+   * @default route (or path) + status class, e.g. '/health 2xx'
+   */
+  key?: (event: WideEvent) => string;
+
+  /**
+   * @default 'random'
+   */
+  sampleBy?: SampleBy;
+}
+
+/**
+ * Sampling rule that adapts its rates to traffic
+ */
+export interface AdaptiveSampler<
+  TContext extends ContextSchema = {},
+> extends SamplingRule<TContext> {
+  /**
+   * Current effective rate per key
+   */
+  rates(): Record<string, number>;
+}
+
+interface KeyWindow {
+  current: number;
+  previous: number;
+  kept: number;
+  rate: number;
+}
+
+const OTHER_KEY = "__other__";
+
+const defaultKey = (event: WideEvent) =>
+  `${event.route ?? event.path} ${
+    event.status_code ? `${Math.floor(event.status_code / 100)}xx` : "-"
+  }`;
+
+/**
+ * Create a sampler that keeps a steady volume of events whatever the traffic
+ * Throughput is tracked per key over a sliding window, and each key's rate
+ * is set so all keys together stay near `targetEventsPerSecond`: hot routes
+ * like `/health` get tiny rates, rare endpoints keep everything. The first
+ * `minPerKey` events of each key per window are always kept. Only events
+ * that reach this rule count, so put always-keep rules before it.
+ *
+ * @example
+ * ```typescript
+ * const adaptive = createAdaptiveSampler({ targetEventsPerSecond: 50 });
+ *
+ * app.use('*', wideLogger({
+ *   sampling: first(byStatus(), keepIf((e) => !!e.error, 'error'), adaptive),
+ * }));
+ * ```
+ */
+export function createAdaptiveSampler<TContext extends ContextSchema = {}>(
+  options: AdaptiveSamplerOptions,
+): AdaptiveSampler<TContext> {
+  const windowMs = options.windowMs ?? 10_000;
+  const minPerKey = options.minPerKey ?? 1;
+  const maxKeys = options.maxKeys ?? 1000;
+  const keyFor = options.key ?? defaultKey;
+  const budgetPerWindow = (options.targetEventsPerSecond * windowMs) / 1000;
+
+  const windows = new Map<string, KeyWindow>();
+  let windowStart = Date.now();
+
+  // Slide to the window containing `now`; counts older than one window
+  // are forgotten, along with keys that have gone quiet
+  const advance = (now: number) => {
+    const elapsed = now - windowStart;
+    if (elapsed < windowMs) return;
+
+    const skipped = elapsed >= 2 * windowMs;
+    for (const [key, window] of windows) {
+      window.previous = skipped ? 0 : window.current;
+      window.current = 0;
+      window.kept = 0;
+      if (window.previous === 0) windows.delete(key);
+    }
+    windowStart = skipped ? now : windowStart + windowMs;
+  };
+
+  const sampler: SamplingRule<TContext> = (event, context) => {
+    const now = Date.now();
+    advance(now);
+
+    let key = keyFor(event);
+    if (!windows.has(key) && windows.size >= maxKeys) key = OTHER_KEY;
+    let window = windows.get(key);
+    if (!window) {
+      window = { current: 0, previous: 0, kept: 0, rate: 1 };
+      windows.set(key, window);
+    }
+    window.current++;
+
+    // Sliding-window estimate: the part of the previous window still
+    // inside the last `windowMs`, plus everything seen in this one
+    const progress = (now - windowStart) / windowMs;
+    const observed = window.previous * (1 - progress) + window.current;
+    window.rate = Math.min(1, budgetPerWindow / windows.size / observed);
+
+    const reason = `adaptive:${key}`;
+    if (window.kept < minPerKey) {
+      window.kept++;
+      return { keep: true, reason, rate: 1 };
+    }
+
+    const decision = rate<TContext>(
+      window.rate,
+      reason,
+      options.sampleBy,
+    )(event, context);
+    if (decision?.keep) window.kept++;
+    return decision;
+  };
+
+  return Object.assign(sampler, {
+    rates: () =>
+      Object.fromEntries(
+        [...windows].map(([key, window]) => [key, window.rate]),
+      ),
+  });
+}
@@ -0,0 +1,136 @@
+/**
+ * Opt-in request/response body capture
+ */
+
+import { stripStatefulFlags } from "./headers";
+
+/**
+ * Body capture configuration for wideLogger
+ */
+export interface BodyCaptureOptions {
+  /**
+   * Capture request bodies
+   * @default true
+   */
+  request?: boolean;
+
+  /**
+   * Capture response bodies
+   * @default true
+   */
+  response?: boolean;
+
+  /**
+   * Request paths to capture on - exact, a `*`-terminated prefix
+   * (`/webhooks/*`) or a RegExp
+   * @default every path
+   */
+  routes?: (string | RegExp)[];
+
+  /**
+   * Bytes kept per body; longer bodies are cut and flagged `body_truncated`
+   * @default 8_192
+   */
+  maxBytes?: number;
+}
+
+/**
+ * A body read for an event
+ */
+export interface CapturedBody {
+  body: unknown;
+  truncated: boolean;
+}
+
+/**
+ * Match a request path against capture routes
+ */
+export function matchesRoute(
+  path: string,
+  routes: (string | RegExp)[] | undefined,
+): boolean {
+  if (!routes) return true;
+  return routes.some((route) => {
+    if (typeof route !== "string") return stripStatefulFlags(route).test(path);
+    return route.endsWith("*")
+      ? path.startsWith(route.slice(0, -1))
+      : path === route;
+  });
+}
+
+/**
+ * Whether a content type is worth capturing - JSON, forms and text;
+ * binary and multipart bodies are skipped, as are event streams, which
+ * may never end
+ */
+export function isCapturable(contentType: string | null | undefined): boolean {
+  if (!contentType) return false;
+  const type = contentType.split(";")[0].trim().toLowerCase();
+  if (type === "text/event-stream") return false;
+  return (
+    type === "application/json" ||
+    type.endsWith("+json") ||
+    type === "application/x-www-form-urlencoded" ||
+    type.startsWith("text/") ||
+    type === "application/xml" ||
+    type.endsWith("+xml")
+  );
+}
+
+/**
+ * Read at most `maxBytes` of a body and parse it by content type
+ * JSON and forms become objects; anything else, or a truncated body, is
+ * kept as text. The stream is cancelled once the limit is reached.
+ */
+export async function readBody(
+  stream: ReadableStream<Uint8Array>,
+  contentType: string | null | undefined,
+  maxBytes: number,
+): Promise<CapturedBody> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let truncated = false;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (size + value.byteLength > maxBytes) {
+      chunks.push(value.subarray(0, maxBytes - size));
+      truncated = true;
+      // Not awaited: cancelling a cloned body settles only once the other
+      // branch is done too
+      reader.cancel().catch(() => {});
+      break;
+    }
+    chunks.push(value);
+    size += value.byteLength;
+  }
+
+  const bytes = new Uint8Array(chunks.reduce((n, c) => n + c.byteLength, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  // A cut may split a multi-byte character; decode leniently
+  const text = new TextDecoder().decode(bytes);
+
+  if (truncated) return { body: text, truncated };
+
+  const type = contentType?.split(";")[0].trim().toLowerCase() ?? "";
+  if (type === "application/json" || type.endsWith("+json")) {
+    try {
+      return { body: JSON.parse(text), truncated };
+    } catch {
+      return { body: text, truncated };
+    }
+  }
+  if (type === "application/x-www-form-urlencoded") {
+    return {
+      body: Object.fromEntries(new URLSearchParams(text)),
+      truncated,
+    };
+  }
+  return { body: text, truncated };
+}
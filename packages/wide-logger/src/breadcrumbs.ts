@@ -0,0 +1,37 @@
+import type { LogRecord, WideEvent, WideLoggerContext } from "./types";
+
+const encoder = new TextEncoder();
+
+/**
+ * Create the breadcrumb API for one request
+ * Messages are appended to `event.logs` in order until either cap is hit;
+ * anything beyond is only counted in `event.logs_dropped`, so a runaway loop
+ * can't blow up the event.
+ */
+export function createBreadcrumbRecorder(
+  event: Partial<WideEvent>,
+  maxLogs: number,
+  maxLogBytes: number,
+): Pick<WideLoggerContext, "log"> {
+  let bytes = 0;
+
+  const log: WideLoggerContext["log"] = (level, message, attrs) => {
+    const record: LogRecord = {
+      timestamp: new Date().toISOString(),
+      level,
+      message,
+      ...(attrs && { attrs: { ...attrs } }),
+    };
+    const size = encoder.encode(JSON.stringify(record)).length;
+
+    const logs = (event.logs ??= []);
+    if (logs.length >= maxLogs || bytes + size > maxLogBytes) {
+      event.logs_dropped = (event.logs_dropped ?? 0) + 1;
+      return;
+    }
+    bytes += size;
+    logs.push(record);
+  };
+
+  return { log };
+}
@@ -0,0 +1,121 @@
+import type { WideLoggerOptions } from "./types";
+
+/**
+ * Options that can be swapped at runtime through a ConfigProvider
+ */
+export type DynamicConfig = Pick<
+  WideLoggerOptions,
+  | "sampleRate"
+  | "slowThresholdMs"
+  | "minLevel"
+  | "sampleBy"
+  | "honorUpstream"
+  | "errorCode"
+  | "statusPolicy"
+>;
+
+/**
+ * Source of runtime configuration (a KV key, a file watcher, a flags service...)
+ * Each config it yields replaces the previous one wholesale, layered over
+ * the options wideLogger was created with.
+ */
+export interface ConfigProvider {
+  /**
+   * Fetch the latest config; called on the first request and then at most
+   * every `pollIntervalMs`, off the response path
+   */
+  load?: () => Promise<DynamicConfig | undefined> | DynamicConfig | undefined;
+
+  /**
+   * Minimum time between two `load` calls
+   * @default 30_000
+   */
+  pollIntervalMs?: number;
+
+  /**
+   * Push updates as they happen; return an unsubscribe function
+   */
+  subscribe?: (update: (config: DynamicConfig) => void) => (() => void) | void;
+}
+
+/**
+ * Holds the live configuration and whatever is derived from it
+ */
+export interface ConfigStore<T> {
+  /**
+   * The current snapshot - replaced wholesale on every update, never mutated
+   */
+  current(): T;
+
+  /**
+   * Start a load if the last one is stale; returns it so the caller can
+   * keep the runtime alive until it settles (e.g. `waitUntil`)
+   */
+  refresh(): Promise<void> | undefined;
+
+  /**
+   * Load now, whatever the poll interval
+   */
+  reload(): Promise<void>;
+
+  /**
+   * Stop listening for pushed updates
+   */
+  close(): void;
+}
+
+/**
+ * Create a config store
+ * Requests take one snapshot each, so a swap never mixes old and new
+ * settings within a request. A failed load keeps the previous config.
+ */
+export function createConfigStore<T>(
+  base: DynamicConfig,
+  provider: ConfigProvider | undefined,
+  build: (config: DynamicConfig) => T,
+  onError: (error: unknown) => void,
+): ConfigStore<T> {
+  const pollIntervalMs = provider?.pollIntervalMs ?? 30_000;
+  let snapshot = build(base);
+  let lastLoad = -Infinity;
+  let loading: Promise<void> | undefined;
+
+  const apply = (config: DynamicConfig) => {
+    snapshot = build({ ...base, ...config });
+  };
+
+  const load = () => {
+    lastLoad = Date.now();
+    loading = Promise.resolve()
+      .then(() => provider?.load?.())
+      .then((config) => {
+        if (config) apply(config);
+      })
+      .catch(onError)
+      .finally(() => {
+        loading = undefined;
+      });
+    return loading;
+  };
+
+  const unsubscribe = provider?.subscribe?.((config) => {
+    try {
+      apply(config);
+    } catch (error) {
+      onError(error);
+    }
+  });
+
+  return {
+    current: () => snapshot,
+    refresh: () => {
+      if (!provider?.load || loading) return undefined;
+      if (Date.now() - lastLoad < pollIntervalMs) return undefined;
+      return load();
+    },
+    reload: () => loading ?? load(),
+    close: () => {
+      unsubscribe?.();
+    },
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * Signed debug tokens - force-log a request regardless of sampling
+ * Token format: `<expiry, unix seconds>.<hex HMAC-SHA256 of the expiry>`
+ */
+
+/**
+ * Debug override configuration for wideLogger
+ */
+export interface DebugOptions {
+  /**
+   * Secret the tokens are signed with
+   */
+  secret: string;
+
+  /**
+   * Header carrying the token
+   * @default 'x-wide-logger-debug'
+   */
+  header?: string;
+
+  /**
+   * Longest a token may stay valid; tokens expiring further out are
+   * rejected, so one can't be minted to work forever
+   * @default 86_400_000 (24 hours)
+   */
+  maxTtlMs?: number;
+}
+
+/**
+ * Options for the debug token verifier
+ */
+export interface DebugVerifierOptions {
+  /**
+   * @default 86_400_000 (24 hours)
+   */
+  maxTtlMs?: number;
+
+  /**
+   * Called when the key can't be imported or verification fails; the
+   * token is then treated as invalid
+   */
+  onError?: (error: unknown) => void;
+}
+
+const encoder = new TextEncoder();
+
+const importKey = (secret: string) =>
+  crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (b) =>
+    b.toString(16).padStart(2, "0"),
+  ).join("");
+
+const fromHex = (hex: string) =>
+  new Uint8Array(hex.match(/../g)?.map((byte) => parseInt(byte, 16)) ?? []);
+
+/**
+ * Sign a debug token valid until `expiresAt` (ms since epoch)
+ *
+ * @example
+ * ```typescript
+ * // Capture a customer's traffic for the next 15 minutes
+ * const token = await signDebugToken(secret, Date.now() + 15 * 60_000);
+ * ```
+ */
+export async function signDebugToken(
+  secret: string,
+  expiresAt: number,
+): Promise<string> {
+  const expiry = String(Math.floor(expiresAt / 1000));
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await importKey(secret),
+    encoder.encode(expiry),
+  );
+  return `${expiry}.${toHex(signature)}`;
+}
+
+/**
+ * Create a verifier for debug tokens signed with `secret`
+ * Expired, overlong, malformed and forged tokens all verify as false, as
+ * does every token when Web Crypto fails. Throws on an empty secret.
+ */
+export function createDebugVerifier(
+  secret: string,
+  options: DebugVerifierOptions = {},
+): (token: string | undefined) => Promise<boolean> {
+  if (!secret) {
+    throw new Error("[wide-logger] debug secret must not be empty");
+  }
+  const maxTtlMs = options.maxTtlMs ?? 86_400_000;
+  let key: ReturnType<typeof importKey> | undefined;
+
+  return async (token) => {
+    const match = token?.trim().match(/^(\d+)\.([0-9a-f]{64})$/i);
+    if (!match) return false;
+
+    const [, expiry, signature] = match;
+    const expiresAt = Number(expiry) * 1000;
+    const now = Date.now();
+    if (expiresAt < now || expiresAt > now + maxTtlMs) return false;
+
+    try {
+      key ??= importKey(secret);
+      return await crypto.subtle.verify(
+        "HMAC",
+        await key,
+        fromHex(signature),
+        encoder.encode(expiry),
+      );
+    } catch (error) {
+      // Don't keep a failed import around; the next token retries it
+      key = undefined;
+      options.onError?.(error);
+      return false;
+    }
+  };
+}
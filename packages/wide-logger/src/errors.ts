@@ -0,0 +1,76 @@
+import { HTTPException } from "hono/http-exception";
+import type { ErrorDetails } from "./types";
+
+/**
+ * Limits that keep serialized errors bounded
+ */
+const MAX_CAUSE_DEPTH = 5;
+const MAX_AGGREGATE_ERRORS = 10;
+
+/**
+ * Serialize an error (or any thrown value) into ErrorDetails
+ * Follows `cause` chains and AggregateError children recursively, and records
+ * the status of Hono's HTTPException.
+ */
+export function serializeError(
+  error: unknown,
+  includeStack: boolean,
+  depth = 0,
+): ErrorDetails {
+  if (!(error instanceof Error)) {
+    return {
+      type: "NonError",
+      code: "UNKNOWN",
+      message: typeof error === "string" ? error : safeStringify(error),
+      retriable: false,
+    };
+  }
+
+  const details: ErrorDetails = {
+    type: error.name,
+    code: (error as any).code || "UNKNOWN",
+    message: error.message,
+    retriable: (error as any).retriable ?? false,
+    stack: includeStack ? error.stack : undefined,
+  };
+
+  if (error instanceof HTTPException) {
+    details.status = error.status;
+  }
+
+  if (depth < MAX_CAUSE_DEPTH) {
+    if (error.cause !== undefined) {
+      details.cause = serializeError(error.cause, includeStack, depth + 1);
+    }
+    if (error instanceof AggregateError) {
+      details.aggregate_errors = error.errors
+        .slice(0, MAX_AGGREGATE_ERRORS)
+        .map((child) => serializeError(child, includeStack, depth + 1));
+    }
+  }
+
+  return details;
+}
+
+/**
+ * Whether a thrown error is a deliberate client-error response - an
+ * HTTPException with a 4xx status, e.g. from a failed auth check
+ */
+export function isClientError(error: unknown): boolean {
+  return error instanceof HTTPException && error.status < 500;
+}
+
+/**
+ * Status code a thrown error maps to when it escapes the handler
+ */
+export function statusForError(error: unknown): number {
+  return error instanceof HTTPException ? error.status : 500;
+}
+
+function safeStringify(value: unknown): string {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
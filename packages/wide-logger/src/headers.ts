@@ -0,0 +1,83 @@
+/**
+ * Header and cookie capture
+ */
+
+/**
+ * Header or cookie name matcher - an exact name or a pattern
+ * Header names are matched in lowercase.
+ */
+export type NameMatcher = string | RegExp;
+
+/**
+ * Headers never captured, even when allowlisted
+ */
+export const deniedHeaders: readonly string[] = [
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "set-cookie",
+];
+
+/**
+ * Copy a pattern without `g`/`y`, whose `lastIndex` would otherwise carry
+ * over between `test` calls and make matches vary from request to request
+ */
+export const stripStatefulFlags = (pattern: RegExp): RegExp =>
+  pattern.global || pattern.sticky
+    ? new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ""))
+    : pattern;
+
+const compile = (allow: NameMatcher[]) =>
+  allow.map((matcher) =>
+    typeof matcher === "string" ? matcher : stripStatefulFlags(matcher),
+  );
+
+const matches = (name: string, allow: NameMatcher[]) =>
+  allow.some((matcher) =>
+    typeof matcher === "string" ? matcher === name : matcher.test(name),
+  );
+
+/**
+ * Create a capture function for an allowlist of headers
+ * Returns undefined when nothing matched, so events without any captured
+ * headers don't carry an empty object.
+ *
+ * @example
+ * ```typescript
+ * const capture = createHeaderCapture(['accept-language', /^x-feature-/]);
+ * capture(request.headers); // { 'accept-language': 'en', 'x-feature-beta': '1' }
+ * ```
+ */
+export function createHeaderCapture(
+  allow: NameMatcher[],
+  deny: readonly string[] = deniedHeaders,
+): (headers: Headers) => Record<string, string> | undefined {
+  const allowed = compile(allow).map((matcher) =>
+    typeof matcher === "string" ? matcher.toLowerCase() : matcher,
+  );
+
+  return (headers) => {
+    let captured: Record<string, string> | undefined;
+    headers.forEach((value, name) => {
+      // Headers iterates lowercase names
+      if (deny.includes(name) || !matches(name, allowed)) return;
+      (captured ??= {})[name] = value;
+    });
+    return captured;
+  };
+}
+
+/**
+ * Pick allowlisted cookies out of parsed request cookies
+ */
+export function captureCookies(
+  cookies: Record<string, string>,
+  allow: NameMatcher[],
+): Record<string, string> | undefined {
+  let captured: Record<string, string> | undefined;
+  const allowed = compile(allow);
+  for (const [name, value] of Object.entries(cookies)) {
+    if (matches(name, allowed)) (captured ??= {})[name] = value;
+  }
+  return captured;
+}
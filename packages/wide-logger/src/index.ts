@@ -1,16 +1,126 @@
 // Export types
 export type {
   Logger,
+  EventLogger,
+  LogLevel,
   Storage,
+  Transport,
   SamplingFn,
+  SamplingContext,
+  SamplingRule,
+  SampleDecision,
+  SampleBy,
+  StatusClass,
+  StatusDecision,
+  StatusPolicy,
   ErrorDetails,
+  Span,
+  SpanRecord,
+  SpanRollup,
+  SpanStatus,
+  LogRecord,
+  RequestDetails,
+  ResponseDetails,
   WideEvent,
+  BaseWideEvent,
+  ContextSchema,
+  ContextCategories,
   WideLoggerContext,
   WideLoggerOptions,
+  WideLoggerMiddleware,
+  WideLoggerEnv,
+  WideLoggerStats,
 } from "./types";
+export type { EventQueue, DeliveryTask } from "./queue";
+export type {
+  BatchTransport,
+  BatchTransportOptions,
+  BatchTransportStats,
+} from "./transport";
+export type {
+  RedactOptions,
+  RedactRule,
+  RedactStrategy,
+  RedactPatternName,
+} from "./redact";
+export type { TraceParent } from "./trace";
+export type { AdaptiveSampler, AdaptiveSamplerOptions } from "./adaptive";
+export type { ConfigProvider, ConfigStore, DynamicConfig } from "./config";
+export type { DebugOptions, DebugVerifierOptions } from "./debug";
+export type { NameMatcher } from "./headers";
+export type { TrustProxy, ClientIpOptions } from "./ip";
+export type { WideLoggerPlugin, PluginHook } from "./plugins";
+export type {
+  EventStore,
+  EventStoreOptions,
+  EventQuery,
+  EventQueryResult,
+  EventFilter,
+  EventSort,
+  FilterOperator,
+} from "./store";
+export type {
+  ClientInfo,
+  DeviceType,
+  UserAgentParserOptions,
+} from "./user-agent";
+export type { BodyCaptureOptions, CapturedBody } from "./body";
+export type { PinoLike, WinstonLike, PrettyLoggerOptions } from "./adapters";
+export type { RuntimeInfo } from "./runtime";
+export type { StatusPolicyOptions, DefaultSamplingOptions } from "./sampling";
+export type {
+  StandardSchemaV1,
+  SchemaMode,
+  SchemaError,
+  ValidationOutcome,
+} from "./schema";
 
 // Export main middleware
 export { wideLogger } from "./middleware";
 
 // Export utilities
-export { defaultSampling } from "./sampling";
+export {
+  defaultSampling,
+  defaultRules,
+  getStatusDecision,
+  keepIf,
+  dropIf,
+  keepWhen,
+  rate,
+  rateBy,
+  byStatus,
+  upstream,
+  hashToUnit,
+  first,
+  any,
+  all,
+} from "./sampling";
+export { createAdaptiveSampler } from "./adaptive";
+export { pinoAdapter, winstonAdapter, prettyLogger } from "./adapters";
+export { eventLevel } from "./level";
+export { createHeaderCapture, captureCookies, deniedHeaders } from "./headers";
+export {
+  createClientIpResolver,
+  createIpMatcher,
+  anonymizeIp,
+  normalizeIp,
+  parseForwarded,
+} from "./ip";
+export { parseUserAgent, createUserAgentParser } from "./user-agent";
+export { createHookRunner } from "./plugins";
+export { createEventStore, parseFilter } from "./store";
+export { createEventQueue } from "./queue";
+export { createConfigStore } from "./config";
+export { signDebugToken, createDebugVerifier } from "./debug";
+export { createBatchTransport } from "./transport";
+export { createRedactor, redactPatterns } from "./redact";
+export {
+  parseTraceparent,
+  formatTraceparent,
+  generateTraceId,
+  generateSpanId,
+  isSampled,
+} from "./trace";
+export { validateEvent } from "./schema";
+export { serializeError } from "./errors";
+export { detectRuntime } from "./runtime";
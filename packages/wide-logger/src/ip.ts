@@ -0,0 +1,311 @@
+import type { Context } from "hono";
+import type { GetConnInfo } from "hono/conninfo";
+
+/**
+ * Which proxies in front of the app to believe
+ * - `true`: every proxy - the client is the first forwarded address, which
+ *   the client itself can set unless the proxy overwrites the header
+ * - `false`: none - forwarding headers are ignored
+ * - a number: that many hops closest to the app (e.g. 1 for a single
+ *   load balancer)
+ * - a list of addresses or CIDR ranges the proxies connect from
+ */
+export type TrustProxy = boolean | number | string[];
+
+/**
+ * Options for client IP resolution
+ */
+export interface ClientIpOptions {
+  /**
+   * @default true
+   */
+  trustProxy?: TrustProxy;
+
+  /**
+   * Take `cf-connecting-ip` as the client address whenever it is present
+   * Only safe when every request reaches the app through Cloudflare.
+   * @default false
+   */
+  trustCloudflare?: boolean;
+
+  /**
+   * Runtime's connection info, e.g. `getConnInfo` from `hono/bun`
+   * @default built-in detection for Node, Bun and Deno
+   */
+  getConnInfo?: GetConnInfo;
+
+  /**
+   * Truncate addresses - IPv4 to /24, IPv6 to /48
+   * @default false
+   */
+  anonymize?: boolean;
+}
+
+// Addresses are compared as 16 bytes, IPv4 mapped into ::ffff:0:0/96
+type Bytes = number[];
+
+const IPV4 = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+
+function parseIPv4(address: string): Bytes | undefined {
+  const match = address.match(IPV4);
+  if (!match) return undefined;
+  const octets = match.slice(1).map(Number);
+  return octets.every((octet) => octet <= 255) ? octets : undefined;
+}
+
+function parseIPv6(address: string): Bytes | undefined {
+  // Zone IDs (fe80::1%eth0) only matter on the host
+  let rest = address.split("%")[0];
+
+  // Trailing embedded IPv4, e.g. ::ffff:192.0.2.1
+  let tail: Bytes = [];
+  const lastColon = rest.lastIndexOf(":");
+  if (rest.includes(".", lastColon)) {
+    const ipv4 = parseIPv4(rest.slice(lastColon + 1));
+    if (!ipv4) return undefined;
+    tail = ipv4;
+    rest = `${rest.slice(0, lastColon + 1)}0:0`;
+  }
+
+  const halves = rest.split("::");
+  if (halves.length > 2) return undefined;
+  const groups = halves.map((half) => (half ? half.split(":") : []));
+  const missing = 8 - groups.reduce((n, half) => n + half.length, 0);
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return undefined;
+
+  const hextets = [
+    ...groups[0],
+    ...Array<string>(halves.length === 2 ? missing : 0).fill("0"),
+    ...(groups[1] ?? []),
+  ];
+  if (!hextets.every((group) => /^[0-9a-f]{1,4}$/i.test(group))) {
+    return undefined;
+  }
+
+  const bytes = hextets.flatMap((group) => {
+    const value = parseInt(group, 16);
+    return [value >> 8, value & 0xff];
+  });
+  if (tail.length) bytes.splice(12, 4, ...tail);
+  return bytes;
+}
+
+const MAPPED_PREFIX = [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0xff, 0xff];
+
+function toBytes(address: string): Bytes | undefined {
+  const ipv4 = parseIPv4(address);
+  if (ipv4) return [...MAPPED_PREFIX, ...ipv4];
+  return parseIPv6(address);
+}
+
+const isMapped = (bytes: Bytes) =>
+  MAPPED_PREFIX.every((byte, i) => bytes[i] === byte);
+
+function format(bytes: Bytes): string {
+  if (isMapped(bytes)) return bytes.slice(12).join(".");
+
+  const hextets = Array.from({ length: 8 }, (_, i) =>
+    ((bytes[i * 2] << 8) | bytes[i * 2 + 1]).toString(16),
+  );
+  // Compress the longest run of zero groups (RFC 5952)
+  let best = { start: -1, length: 1 };
+  for (let i = 0; i < 8; i++) {
+    let length = 0;
+    while (hextets[i + length] === "0") length++;
+    if (length > best.length) best = { start: i, length };
+  }
+  if (best.start === -1) return hextets.join(":");
+  const head = hextets.slice(0, best.start).join(":");
+  const tail = hextets.slice(best.start + best.length).join(":");
+  return `${head}::${tail}`;
+}
+
+/**
+ * Normalize an address taken from a header or socket
+ * Strips ports, brackets and quotes, and unwraps IPv4-mapped IPv6, so
+ * `"[::ffff:192.0.2.1]:443"` becomes `192.0.2.1`. Returns undefined for
+ * anything that isn't an IP, such as `unknown` or obfuscated identifiers.
+ */
+export function normalizeIp(value: string | undefined): string | undefined {
+  let address = value?.trim().replace(/^"|"$/g, "");
+  if (!address) return undefined;
+
+  const bracketed = address.match(/^\[([^\]]+)\](?::\d+)?$/);
+  if (bracketed) {
+    address = bracketed[1];
+  } else if (/^[\d.]+:\d+$/.test(address)) {
+    address = address.slice(0, address.lastIndexOf(":"));
+  }
+
+  const bytes = toBytes(address);
+  return bytes ? format(bytes) : undefined;
+}
+
+/**
+ * Truncate an address so it no longer identifies a single host
+ * IPv4 keeps its first three octets, IPv6 its first 48 bits.
+ *
+ * @example
+ * ```typescript
+ * anonymizeIp('203.0.113.42'); // '203.0.113.0'
+ * anonymizeIp('2001:db8:85a3:8d3:1319:8a2e:370:7348'); // '2001:db8:85a3::'
+ * ```
+ */
+export function anonymizeIp(address: string): string {
+  const bytes = toBytes(address);
+  if (!bytes) return address;
+  const keep = isMapped(bytes) ? 15 : 6;
+  return format(bytes.map((byte, i) => (i < keep ? byte : 0)));
+}
+
+/**
+ * Create a matcher for a list of addresses and CIDR ranges
+ *
+ * @example
+ * ```typescript
+ * const isProxy = createIpMatcher(['10.0.0.0/8', '2001:db8::/32']);
+ * isProxy('10.1.2.3'); // true
+ * ```
+ */
+export function createIpMatcher(
+  ranges: string[],
+): (address: string | undefined) => boolean {
+  const parsed = ranges.map((range) => {
+    const [address, prefix] = range.split("/");
+    const bytes = toBytes(address);
+    if (!bytes) throw new Error(`[wide-logger] invalid address: ${range}`);
+    const max = address.includes(":") ? 128 : 32;
+    const bits = prefix === undefined ? max : Number(prefix);
+    if (!Number.isInteger(bits) || bits < 0 || bits > max) {
+      throw new Error(`[wide-logger] invalid CIDR prefix: ${range}`);
+    }
+    // IPv4 ranges sit after the 96-bit mapped prefix
+    return { bytes, bits: max === 32 ? bits + 96 : bits };
+  });
+
+  return (address) => {
+    const bytes = address ? toBytes(address) : undefined;
+    if (!bytes) return false;
+    return parsed.some((range) => {
+      for (let bit = 0; bit < range.bits; bit += 8) {
+        const mask = 0xff << (8 - Math.min(8, range.bits - bit));
+        const i = bit / 8;
+        if ((bytes[i] & mask & 0xff) !== (range.bytes[i] & mask & 0xff)) {
+          return false;
+        }
+      }
+      return true;
+    });
+  };
+}
+
+/**
+ * Addresses from the `Forwarded` header (RFC 7239), client first
+ */
+export function parseForwarded(header: string): (string | undefined)[] {
+  return header.split(",").map((element) => {
+    const pair = element
+      .split(";")
+      .map((part) => part.trim())
+      .find((part) => part.toLowerCase().startsWith("for="));
+    return normalizeIp(pair?.slice(4));
+  });
+}
+
+/**
+ * Address of the peer connected to this server, read the way Hono's
+ * per-runtime `getConnInfo` helpers do: `@hono/node-server` exposes the
+ * socket, Bun the server and Deno the connection's `remoteAddr`
+ */
+function peerAddress(c: Context): string | undefined {
+  try {
+    const env = c.env as Record<string, any> | undefined;
+    const address =
+      env?.incoming?.socket?.remoteAddress ??
+      env?.remoteAddr?.hostname ??
+      (env?.server ?? env)?.requestIP?.(c.req.raw)?.address;
+    return typeof address === "string" ? address : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Create a resolver for the address of the client behind any proxies
+ *
+ * Forwarded addresses (`X-Forwarded-For`, else `Forwarded`) are walked
+ * from the app outwards, starting at the connected peer: trusted hops are
+ * skipped and the first untrusted address is the client. With a hop count
+ * or CIDR list, addresses a client prepends to the chain are never
+ * reached. Single-value headers can't be checked hop by hop, so
+ * `cf-connecting-ip` and `x-real-ip` are only read with `trustProxy: true`,
+ * or for `cf-connecting-ip`, with `trustCloudflare`.
+ *
+ * @example
+ * ```typescript
+ * // Behind one load balancer
+ * createClientIpResolver({ trustProxy: 1 });
+ * // Behind proxies in a private network, with Bun
+ * createClientIpResolver({ trustProxy: ['10.0.0.0/8'], getConnInfo });
+ * ```
+ */
+export function createClientIpResolver(
+  options: ClientIpOptions = {},
+): (c: Context) => string | undefined {
+  const trust = options.trustProxy ?? true;
+  const isTrusted: (address: string | undefined, hop: number) => boolean =
+    typeof trust === "boolean"
+      ? () => trust
+      : typeof trust === "number"
+        ? (_, hop) => hop < trust
+        : createIpMatcher(trust);
+
+  const remoteAddress = (c: Context) => {
+    if (!options.getConnInfo) return peerAddress(c);
+    try {
+      return options.getConnInfo(c).remote.address;
+    } catch {
+      return undefined;
+    }
+  };
+
+  const resolve = (c: Context) => {
+    if (options.trustCloudflare || trust === true) {
+      const cloudflare = normalizeIp(c.req.header("cf-connecting-ip"));
+      if (cloudflare) return cloudflare;
+    }
+
+    const peer = normalizeIp(remoteAddress(c));
+    if (!isTrusted(peer, 0)) return peer;
+
+    const forwardedFor = c.req.header("x-forwarded-for");
+    const forwarded = c.req.header("forwarded");
+    const chain = forwardedFor
+      ? forwardedFor.split(",").map(normalizeIp)
+      : forwarded
+        ? parseForwarded(forwarded)
+        : [];
+
+    // Trusting everything means taking the client's own claim
+    if (trust === true) {
+      return chain.length > 0
+        ? chain[0]
+        : (normalizeIp(c.req.header("x-real-ip")) ?? peer);
+    }
+
+    // Nearest hop first; stop at the first address we can't vouch for
+    const hops = [peer, ...chain.reverse()];
+    for (let hop = 1; hop < hops.length; hop++) {
+      if (hops[hop] === undefined) return undefined;
+      if (!isTrusted(hops[hop], hop)) return hops[hop];
+    }
+    return hops[hops.length - 1];
+  };
+
+  return options.anonymize
+    ? (c) => {
+        const address = resolve(c);
+        return address && anonymizeIp(address);
+      }
+    : resolve;
+}
@@ -0,0 +1,33 @@
+import type { LogLevel, WideEvent } from "./types";
+
+const severity: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+/**
+ * Level an event is logged at, derived from its outcome
+ * - error: 5xx responses and events carrying an error
+ * - warn: slow requests (> threshold)
+ * - info: everything else
+ */
+export function eventLevel(
+  event: Partial<WideEvent>,
+  slowThresholdMs: number,
+): LogLevel {
+  if ((event.status_code ?? 0) >= 500 || event.error) return "error";
+  if ((event.duration_ms ?? 0) > slowThresholdMs) return "warn";
+  return "info";
+}
+
+/**
+ * Whether an event at `level` clears the `minLevel` threshold
+ */
+export function meetsLevel(
+  level: LogLevel,
+  minLevel: LogLevel | undefined,
+): boolean {
+  return minLevel === undefined || severity[level] >= severity[minLevel];
+}
@@ -1,6 +1,47 @@
 import type { MiddlewareHandler } from "hono";
-import type { WideEvent, WideLoggerContext, WideLoggerOptions } from "./types";
-import { defaultSampling } from "./sampling";
+import { matchedRoutes } from "hono/route";
+import { findTargetHandler, isMiddleware } from "hono/utils/handler";
+import { getCookie } from "hono/cookie";
+import type {
+  ContextSchema,
+  EventLogger,
+  Logger,
+  LogLevel,
+  WideEvent,
+  WideLoggerContext,
+  WideLoggerEnv,
+  WideLoggerMiddleware,
+  WideLoggerOptions,
+  WideLoggerStats,
+} from "./types";
+import { defaultRules, getStatusDecision, hashToUnit } from "./sampling";
+import { createEventQueue, getWaitUntil, type DeliveryTask } from "./queue";
+import { countBytes, parseContentLength } from "./size";
+import { createRedactor } from "./redact";
+import { createSpanRecorder } from "./spans";
+import { createBreadcrumbRecorder } from "./breadcrumbs";
+import { validateEvent, type ValidationOutcome } from "./schema";
+import { isClientError, serializeError, statusForError } from "./errors";
+import { detectRuntime } from "./runtime";
+import { createConfigStore } from "./config";
+import { createDebugVerifier } from "./debug";
+import { eventLevel, meetsLevel } from "./level";
+import {
+  isCapturable,
+  matchesRoute,
+  readBody,
+  type CapturedBody,
+} from "./body";
+import { captureCookies, createHeaderCapture, deniedHeaders } from "./headers";
+import { createClientIpResolver } from "./ip";
+import { createUserAgentParser } from "./user-agent";
+import { createHookRunner } from "./plugins";
+import {
+  formatTraceparent,
+  generateSpanId,
+  generateTraceId,
+  parseTraceparent,
+} from "./trace";
 
 declare module "hono" {
   interface ContextVariableMap {
@@ -16,11 +57,15 @@ const defaultOptions: WideLoggerOptions = {
   sampleRate: 0.05,
   generateRequestId: () => crypto.randomUUID(),
   requestIdHeader: "x-request-id",
+  maxSpans: 100,
+  maxLogs: 50,
+  maxLogBytes: 16_384,
 };
 
 /**
  * Wide Logger middleware factory
- * Returns a Hono middleware that captures comprehensive request context
+ * Returns a Hono middleware that captures comprehensive request context.
+ * Pass a context schema type to add typed custom categories to `addContext`.
  *
  * @example
  * ```typescript
@@ -35,18 +80,127 @@ const defaultOptions: WideLoggerOptions = {
  *   logger.addContext('user', { id: '123', tier: 'premium' });
  *   return c.json({ id: '123' });
  * });
+ *
+ * // Custom, type-checked context categories
+ * type AppContext = { payment: { provider: string; amount_cents: number } };
+ * const typed = new Hono<WideLoggerEnv<AppContext>>();
+ * typed.use('*', wideLogger<AppContext>());
  * ```
+ *
+ * The event is emitted once the response body has been fully sent, so
+ * streamed responses get accurate sizes and a `stream_duration_ms`.
+ * Storage writes never block the response: on Workers they are handed to
+ * `c.executionCtx.waitUntil`, elsewhere to a background queue. Call
+ * `flush()` / `shutdown()` on the returned middleware during graceful
+ * shutdown so queued and buffered events are not lost.
  */
 
-export function wideLogger(options?: WideLoggerOptions): MiddlewareHandler {
+export function wideLogger<TContext extends ContextSchema = {}>(
+  options?: WideLoggerOptions<TContext>,
+): WideLoggerMiddleware<TContext> {
   const opts = {
     ...defaultOptions,
     logger: options?.logger ?? console,
     ...options,
   };
 
-  return async (c, next) => {
+  const reportError = (error: unknown) => {
+    opts.logger.error("[wide-logger] event delivery failed", error);
+  };
+
+  const queue = createEventQueue(reportError);
+  // Events waiting on a response body to finish sending; flush() emits them
+  // rather than waiting on clients that may never read
+  const pendingStreams = new Set<() => void>();
+  const emitPendingStreams = () => {
+    for (const finish of pendingStreams) finish();
+  };
+  const redact = opts.redact ? createRedactor(opts.redact) : undefined;
+  const stats: WideLoggerStats = { schemaFailures: 0 };
+  const debugHeader =
+    opts.debug?.header?.toLowerCase() ?? "x-wide-logger-debug";
+  const bodyCapture =
+    opts.captureBody === true ? {} : opts.captureBody || undefined;
+  const maxBodyBytes = bodyCapture?.maxBytes ?? 8_192;
+  const streamTimeoutMs = opts.streamTimeoutMs ?? 60_000;
+  // Debug tokens are replayable until they expire, so never capture them
+  const captureRequestHeaders = opts.captureRequestHeaders?.length
+    ? createHeaderCapture(opts.captureRequestHeaders, [
+        ...deniedHeaders,
+        debugHeader,
+      ])
+    : undefined;
+  const captureResponseHeaders = opts.captureResponseHeaders?.length
+    ? createHeaderCapture(opts.captureResponseHeaders)
+    : undefined;
+  const resolveClientIp = createClientIpResolver({
+    trustProxy: opts.trustProxy,
+    trustCloudflare: opts.trustCloudflare,
+    getConnInfo: opts.getConnInfo,
+    anonymize: opts.anonymizeIp,
+  });
+  const parseUserAgent = opts.parseUserAgent
+    ? createUserAgentParser(
+        opts.parseUserAgent === true ? {} : opts.parseUserAgent,
+      )
+    : undefined;
+  const runHooks = createHookRunner(
+    opts.plugins ?? [],
+    opts.pluginTimeoutMs ?? 100,
+    (error, plugin, hook) =>
+      opts.logger.error(
+        `[wide-logger] plugin "${plugin.name}" ${hook} failed`,
+        error,
+      ),
+  );
+  const verifyDebugToken = opts.debug
+    ? createDebugVerifier(opts.debug.secret, {
+        maxTtlMs: opts.debug.maxTtlMs,
+        onError: (error) =>
+          opts.logger.error("[wide-logger] debug token check failed", error),
+      })
+    : undefined;
+
+  // Sampling settings can be swapped at runtime; the sampler is rebuilt
+  // with them so each request sees one consistent snapshot
+  const config = createConfigStore(
+    {
+      sampleRate: opts.sampleRate,
+      slowThresholdMs: opts.slowThresholdMs,
+      minLevel: opts.minLevel,
+      sampleBy: opts.sampleBy,
+      honorUpstream: opts.honorUpstream,
+      errorCode: opts.errorCode,
+      statusPolicy: opts.statusPolicy,
+    },
+    opts.config,
+    (settings) => ({
+      settings,
+      sampler:
+        opts.sampling ??
+        defaultRules<TContext>({
+          slowThresholdMs: settings.slowThresholdMs ?? 2000,
+          sampleRate: settings.sampleRate ?? 0.05,
+          sampleBy: settings.sampleBy,
+          honorUpstream: settings.honorUpstream,
+        }),
+    }),
+    (error) => opts.logger.error("[wide-logger] config load failed", error),
+  );
+
+  const middleware: MiddlewareHandler<WideLoggerEnv<TContext>> = async (
+    c,
+    next,
+  ) => {
     const startTime = Date.now();
+    const { settings, sampler } = config.current();
+    const refreshing = config.refresh();
+    if (refreshing) getWaitUntil(c)?.(refreshing);
+
+    // A valid signed debug token bypasses sampling for this request
+    const forced = verifyDebugToken
+      ? await verifyDebugToken(c.req.header(debugHeader))
+      : false;
 
     // Generate request ID once and ensure it's always defined
     const requestId =
@@ -54,43 +208,317 @@ export function wideLogger(options?: WideLoggerOptions): MiddlewareHandler {
       opts.generateRequestId?.() ||
       crypto.randomUUID();
 
+    // Runtime, environment and region, read through Hono's adapter so it
+    // works on Workers, Deno and Bun as well as Node
+    const runtime = detectRuntime(c, opts.environment);
+    const includeStack =
+      opts.includeStack ?? runtime.environment === "development";
+
+    // W3C trace context: join the caller's trace or start a new one,
+    // with a fresh span for this hop. A new trace is flagged with the head
+    // decision - the rate roll on its ID - so downstream services honoring
+    // the flag keep the traces this one keeps, not all of them
+    const parent = parseTraceparent(c.req.header("traceparent"));
+    const traceState = parent ? c.req.header("tracestate") : undefined;
+    const traceId = parent?.traceId ?? generateTraceId();
+    const headSampled =
+      forced || hashToUnit(traceId) < (settings.sampleRate ?? 0.05);
+
     // Initialize event with request basics
     const event: Partial<WideEvent> = {
       request_id: requestId,
+      trace_id: traceId,
+      span_id: generateSpanId(),
+      parent_span_id: parent?.parentId,
+      trace_flags: parent?.flags ?? (headSampled ? "01" : "00"),
       timestamp: new Date().toISOString(),
       method: c.req.method,
       path: c.req.path,
       query_params: Object.fromEntries(new URL(c.req.url).searchParams),
-      client_ip: c.req.header("x-forwarded-for") || c.req.header("x-real-ip"),
+      client_ip: resolveClientIp(c),
       user_agent: c.req.header("user-agent"),
       content_type: c.req.header("Content-type"),
+      infra: { ...runtime },
     };
 
+    if (parseUserAgent && event.user_agent) {
+      event.client = parseUserAgent(event.user_agent);
+    }
+
+    // Allowlisted headers and cookies
+    const requestHeaders = captureRequestHeaders?.(c.req.raw.headers);
+    const cookies = opts.captureCookies?.length
+      ? captureCookies(getCookie(c), opts.captureCookies)
+      : undefined;
+    if (requestHeaders || cookies) {
+      event.request = {
+        ...(requestHeaders && { headers: requestHeaders }),
+        ...(cookies && { cookies }),
+      };
+    }
+
+    // Record an error; `primary` marks the error that failed the request
+    const recordError = (
+      error: unknown,
+      metadata?: Record<string, any>,
+      primary = false,
+    ) => {
+      const details = {
+        ...serializeError(error, includeStack),
+        ...metadata,
+      };
+      event.errors = [...(event.errors ?? []), details];
+      if (primary || !event.error) {
+        event.error = details;
+      }
+    };
+
+    // A 4xx HTTPException is an expected outcome: it is listed in `errors`
+    // but only becomes the event's error - always kept, logged at error
+    // level - when the status policy keeps that status
+    const recordThrown = (error: unknown) => {
+      if (
+        isClientError(error) &&
+        getStatusDecision(event.status_code, settings) !== "keep"
+      ) {
+        event.errors = [
+          ...(event.errors ?? []),
+          serializeError(error, includeStack),
+        ];
+        return;
+      }
+      recordError(error, undefined, true);
+    };
+
+    // Set by handlers through setLevel; otherwise derived at emission
+    let explicitLevel: LogLevel | undefined;
+
     // Create context API for handlers
-    const wideLoggerContext: WideLoggerContext = {
+    const wideLoggerContext: WideLoggerContext<TContext> = {
       addContext: (category, data) => {
-        event[category] = { ...event[category], ...data };
+        const categories = event as Record<string, any>;
+        categories[category as string] = {
+          ...categories[category as string],
+          ...data,
+        };
       },
       addError: (error, metadata) => {
-        event.error = {
-          type: error.name,
-          code: (error as any).code || "UNKNOWN",
-          message: error.message,
-          retriable: (error as any).retriable ?? false,
-          stack:
-            process.env.NODE_ENV === "development" ? error.stack : undefined,
-          ...metadata,
+        recordError(error, metadata);
+      },
+      setLevel: (level) => {
+        explicitLevel = level;
+      },
+      getEvent: () => ({ ...event }) as Partial<WideEvent<TContext>>,
+      getTraceHeaders: () => {
+        const headers: Record<string, string> = {
+          traceparent: formatTraceparent(
+            event.trace_id!,
+            event.span_id!,
+            event.trace_flags!,
+          ),
+          [opts.requestIdHeader || "x-request-id"]: requestId,
         };
+        if (traceState) {
+          headers.tracestate = traceState;
+        }
+        return headers;
       },
-      getEvent: () => ({ ...event }),
+      ...createSpanRecorder(event, opts.maxSpans ?? 100),
+      ...createBreadcrumbRecorder(
+        event,
+        opts.maxLogs ?? 50,
+        opts.maxLogBytes ?? 16_384,
+      ),
     };
 
     // Set context for downstream handlers
     c.set("wide-logger", wideLoggerContext);
 
+    // Plugins work on the live event, typed with the app's categories
+    const pluginEvent = event as Partial<WideEvent<TContext>>;
+    await runHooks("onRequest", (plugin) => plugin.onRequest?.(c, pluginEvent));
+
     // Set response header with request ID for distributed tracing
     c.header("x-request-id", requestId);
 
+    // Run delivery off the response path
+    const deliver = (task: DeliveryTask) => {
+      const waitUntil = getWaitUntil(c);
+      if (waitUntil) {
+        waitUntil(Promise.resolve().then(task).catch(reportError));
+      } else {
+        queue.push(task);
+      }
+    };
+
+    // Opt-in body capture: read a clone alongside the handler so the copy
+    // stops at maxBytes instead of buffering the whole body; the result is
+    // thrown away if the event is dropped
+    const captureBodies =
+      bodyCapture !== undefined && matchesRoute(c.req.path, bodyCapture.routes);
+    const captureBody = (message: Request | Response) => {
+      const clone = message.clone();
+      if (!clone.body) return undefined;
+      // A body that fails, or stalls past streamTimeoutMs, is left out of
+      // the event rather than losing it or holding up the delivery queue
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const stalled = new Promise<undefined>((resolve) => {
+        timer = setTimeout(() => resolve(undefined), streamTimeoutMs);
+        if (typeof timer === "object" && "unref" in timer) timer.unref();
+      });
+      return Promise.race([
+        readBody(clone.body, clone.headers.get("content-type"), maxBodyBytes),
+        stalled,
+      ])
+        .catch(() => undefined)
+        .finally(() => clearTimeout(timer));
+    };
+    let requestBody: Promise<CapturedBody | undefined> | undefined;
+    let responseBody: Promise<CapturedBody | undefined> | undefined;
+    if (
+      captureBodies &&
+      bodyCapture.request !== false &&
+      c.req.raw.body &&
+      isCapturable(c.req.header("content-type"))
+    ) {
+      requestBody = captureBody(c.req.raw);
+    }
+
+    // Request size: trust content-length, otherwise count chunked uploads
+    // as the handler reads them
+    event.request_size_bytes = parseContentLength(
+      c.req.header("content-length"),
+    );
+    if (event.request_size_bytes === undefined && c.req.raw.body) {
+      const body = countBytes(c.req.raw.body, (bytes) => {
+        event.request_size_bytes = bytes;
+      });
+      c.req.raw = new Request(c.req.raw, {
+        body,
+        duplex: "half",
+      } as RequestInit);
+    }
+
+    // Sample and deliver the finalized event
+    const emit = () => {
+      event.level =
+        explicitLevel ?? eventLevel(event, settings.slowThresholdMs ?? 2000);
+
+      const decision = forced
+        ? { keep: true, reason: "debug", rate: 1 }
+        : sampler(event as WideEvent<TContext>, {
+            status: getStatusDecision(event.status_code, settings),
+          });
+      if (typeof decision === "object") {
+        event.sample_reason = decision.reason;
+        event.sample_rate = decision.rate;
+      }
+
+      if (!(typeof decision === "object" ? decision.keep : decision)) {
+        return;
+      }
+
+      // Captured bodies are attached off the response path
+      if (requestBody || responseBody) {
+        deliver(() => readBodies().then(enrich));
+        return;
+      }
+      enrich();
+    };
+
+    const readBodies = async () => {
+      const [request, response] = await Promise.all([
+        requestBody,
+        responseBody,
+      ]);
+      if (request) {
+        event.request = {
+          ...event.request,
+          body: request.body,
+          body_truncated: request.truncated,
+        };
+      }
+      if (response) {
+        event.response = {
+          ...event.response,
+          body: response.body,
+          body_truncated: response.truncated,
+        };
+      }
+    };
+
+    // Let plugins add to the complete event; async hooks run in the
+    // background rather than holding up the response
+    const enrich = () => {
+      const enriching = runHooks("beforeEmit", (plugin) =>
+        plugin.beforeEmit?.(event as WideEvent<TContext>),
+      );
+      if (enriching) {
+        deliver(() => enriching.then(finalize));
+        return;
+      }
+      finalize();
+    };
+
+    const finalize = () => {
+      // Scrub PII before the event leaves the process
+      const output = (redact ? redact(event) : event) as WideEvent;
+
+      if (!opts.schema) {
+        publish(output);
+        return;
+      }
+
+      // Validate what will actually be stored; async validators run off
+      // the response path like any other delivery
+      const outcome = validateEvent(
+        opts.schema,
+        opts.schemaMode ?? "annotate",
+        output,
+      );
+      if (outcome instanceof Promise) {
+        deliver(() => outcome.then(handleOutcome));
+      } else {
+        handleOutcome(outcome);
+      }
+    };
+
+    const handleOutcome = (outcome: ValidationOutcome) => {
+      if (!outcome.valid) stats.schemaFailures++;
+      if (outcome.event) publish(outcome.event);
+    };
+
+    // Hand a finalized event to the logger, storage and transport
+    const publish = (output: WideEvent) => {
+      const level = event.level ?? "info";
+      if (!forced && !meetsLevel(level, settings.minLevel)) return;
+
+      // Log through the method matching the level; structured loggers get
+      // the object itself
+      const logger = opts.logger as Logger | EventLogger;
+      if ("event" in logger) {
+        logger.event(output, level);
+      } else {
+        logger[level](JSON.stringify(output));
+      }
+
+      // Store if storage is configured
+      const storage = opts.storage;
+      if (storage) {
+        deliver(() => storage.set(requestId, output));
+      }
+
+      // Buffer for batched shipping; on Workers, flush before the isolate
+      // is frozen since interval timers won't fire after the response
+      if (opts.transport) {
+        opts.transport.write(output);
+        getWaitUntil(c)?.(opts.transport.flush().catch(reportError));
+      }
+    };
+
+    // Set when emission waits for the response body to finish streaming
+    let streaming = false;
+
     try {
       await next();
 
@@ -98,37 +526,105 @@ export function wideLogger(options?: WideLoggerOptions): MiddlewareHandler {
       event.status_code = c.res.status;
       event.duration_ms = Date.now() - startTime;
 
-      // Check if Hono handled an error internally (status >= 500)
-      if (event.status_code >= 500 && !event.error) {
-        // Hono caught the error and set status to 500
-        wideLoggerContext.addError(
-          new Error(`HTTP ${event.status_code} error`),
+      const responseHeaders = captureResponseHeaders?.(c.res.headers);
+      if (responseHeaders) {
+        event.response = { headers: responseHeaders };
+      }
+      if (
+        captureBodies &&
+        bodyCapture.response !== false &&
+        c.res.body &&
+        isCapturable(c.res.headers.get("content-type"))
+      ) {
+        responseBody = captureBody(c.res);
+      }
+
+      if (c.error) {
+        // Hono caught a thrown error and responded via its error handler
+        // (an HTTPException keeps its own status, e.g. 404)
+        recordThrown(c.error);
+        const error = c.error;
+        await runHooks("onError", (plugin) =>
+          plugin.onError?.(c, pluginEvent, error),
         );
+      } else if (event.status_code >= 500 && !event.error) {
+        // Handler responded with a 5xx without throwing
+        recordError(new Error(`HTTP ${event.status_code} error`));
+      }
+      await runHooks("onResponse", (plugin) =>
+        plugin.onResponse?.(c, pluginEvent),
+      );
+
+      // Response size: trust content-length, otherwise count the body as it
+      // streams out and emit once it has been fully sent - or once
+      // streamTimeoutMs have passed, for bodies nobody reads
+      event.response_size_bytes = parseContentLength(
+        c.res.headers.get("content-length"),
+      );
+      if (event.response_size_bytes === undefined) {
+        // Hono drops the body of a HEAD response after the handler returns
+        if (c.res.body && c.req.method !== "HEAD") {
+          const streamStart = Date.now();
+          const finish = (bytes?: number) => {
+            if (!pendingStreams.delete(finish)) return;
+            clearTimeout(timer);
+            if (bytes !== undefined) {
+              event.response_size_bytes = bytes;
+              event.stream_duration_ms = Date.now() - streamStart;
+            }
+            emit();
+          };
+          const timer = setTimeout(() => finish(), streamTimeoutMs);
+          if (typeof timer === "object" && "unref" in timer) timer.unref();
+          pendingStreams.add(finish);
+          c.res = new Response(countBytes(c.res.body, finish), c.res);
+          streaming = true;
+        } else {
+          event.response_size_bytes = 0;
+        }
       }
     } catch (error) {
       // Handle errors (for frameworks that don't catch internally)
-      event.status_code = 500;
+      event.status_code = statusForError(error);
       event.duration_ms = Date.now() - startTime;
-      wideLoggerContext.addError(error as Error);
+      recordThrown(error);
+      await runHooks("onError", (plugin) =>
+        plugin.onError?.(c, pluginEvent, error),
+      );
       throw error;
     } finally {
-      // Sampling decision
-      const shouldLog = opts.sampling
-        ? opts.sampling(event as WideEvent)
-        : defaultSampling(event as WideEvent, {
-            slowThresholdMs: opts.slowThresholdMs || 2000,
-            sampleRate: opts.sampleRate || 0.05,
-          });
-
-      if (shouldLog) {
-        // Log to configured logger
-        opts.logger.info(JSON.stringify(event));
-
-        // Store if storage is configured
-        if (opts.storage) {
-          await opts.storage.set(requestId as string, event);
+      // Matched route template - after next() the route index points at the
+      // last entry that ran; if that is a `use` middleware (this one, or one
+      // registered after the handlers), no handler matched
+      const route = matchedRoutes(c)[c.req.routeIndex];
+      if (route && !isMiddleware(findTargetHandler(route.handler))) {
+        event.route = route.path;
+        const params = c.req.param();
+        if (Object.keys(params).length > 0) {
+          event.params = params;
         }
       }
+
+      if (!streaming) {
+        emit();
+      }
     }
   };
+
+  return Object.assign(middleware, {
+    flush: async () => {
+      emitPendingStreams();
+      await queue.flush();
+      await opts.transport?.flush();
+    },
+    shutdown: async () => {
+      config.close();
+      emitPendingStreams();
+      await queue.shutdown();
+      const transport = opts.transport;
+      await (transport?.close ? transport.close() : transport?.flush());
+    },
+    reloadConfig: () => config.reload(),
+    stats,
+  });
 }
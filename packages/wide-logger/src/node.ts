@@ -0,0 +1,123 @@
+/**
+ * Node-only helpers, imported from `@hono/wide-logger/node`
+ */
+import {
+  appendFile,
+  mkdir,
+  readFile,
+  rename,
+  writeFile,
+} from "node:fs/promises";
+import { dirname } from "node:path";
+import type { WideEvent } from "./types";
+import {
+  createEventStore,
+  type EventStore,
+  type EventStoreOptions,
+} from "./store";
+
+/**
+ * Options for the file-backed event store
+ */
+export interface FileEventStoreOptions extends EventStoreOptions {
+  /**
+   * JSON Lines file events are persisted to; created if missing
+   */
+  path: string;
+}
+
+// One line per change: a stored event, or a deletion
+type LogLine =
+  | { key: string; event: WideEvent }
+  | { key: string; deleted: true };
+
+/**
+ * Create an event store that survives restarts
+ * Events are queried in memory like `createEventStore`, and every change is
+ * appended to a JSON Lines file that is replayed on startup. The file is
+ * rewritten with just the live events once it has grown well past them.
+ *
+ * @example
+ * ```typescript
+ * import { createFileEventStore } from '@hono/wide-logger/node';
+ *
+ * const store = await createFileEventStore({ path: './data/events.jsonl' });
+ * app.use('*', wideLogger({ storage: store }));
+ * ```
+ */
+export async function createFileEventStore(
+  options: FileEventStoreOptions,
+): Promise<EventStore> {
+  const store = createEventStore(options);
+  let lines = 0;
+
+  await mkdir(dirname(options.path), { recursive: true });
+  const contents = await readFile(options.path, "utf8").catch(
+    (error: NodeJS.ErrnoException) => {
+      if (error.code === "ENOENT") return "";
+      throw error;
+    },
+  );
+  for (const raw of contents.split("\n")) {
+    if (!raw.trim()) continue;
+    lines++;
+    let line: LogLine;
+    try {
+      line = JSON.parse(raw);
+    } catch {
+      // A crash mid-append leaves a partial last line; skip it
+      continue;
+    }
+    if ("deleted" in line) store.delete(line.key);
+    else store.set(line.key, line.event);
+  }
+
+  // Writes are chained so lines land in the order changes were made; a
+  // failed write is reported to its caller without stalling later ones
+  let writing: Promise<void> = Promise.resolve();
+  const write = (task: () => Promise<void>) => {
+    writing = writing.catch(() => {}).then(task);
+    return writing;
+  };
+
+  const append = (line: LogLine) =>
+    write(async () => {
+      await appendFile(options.path, `${JSON.stringify(line)}\n`);
+      lines++;
+      if (lines > 2 * store.size + 1000) await compact();
+    });
+
+  const compact = async () => {
+    const temp = `${options.path}.tmp`;
+    const entries = store.entries();
+    await writeFile(
+      temp,
+      entries
+        .map(([key, event]) => `${JSON.stringify({ key, event })}\n`)
+        .join(""),
+    );
+    await rename(temp, options.path);
+    lines = entries.length;
+  };
+
+  if (lines > 2 * store.size + 1000) await write(compact);
+
+  return {
+    ...store,
+    set: (key, value) => {
+      store.set(key, value);
+      return append({ key, event: value });
+    },
+    delete: (key) => {
+      store.delete(key);
+      return append({ key, deleted: true });
+    },
+    clear: () => {
+      store.clear();
+      return write(compact);
+    },
+    get size() {
+      return store.size;
+    },
+  };
+}
@@ -0,0 +1,129 @@
+import type { Context } from "hono";
+import type { ContextSchema, WideEvent } from "./types";
+
+type HookResult = void | Promise<void>;
+
+/**
+ * Reusable enrichment for wide events (auth, geo, feature flags, tenants...)
+ * Every hook may be sync or async. Async hooks are awaited up to the
+ * plugin's time budget; past it the request moves on without them. A hook
+ * that throws or times out is reported through the logger and never fails
+ * the request.
+ *
+ * @example
+ * ```typescript
+ * type TenantContext = { tenant: { id: string; plan: string } };
+ *
+ * const tenantPlugin: WideLoggerPlugin<TenantContext> = {
+ *   name: 'tenant',
+ *   onRequest: async (c, event) => {
+ *     const tenant = await tenants.lookup(c.req.header('x-tenant-id'));
+ *     event.tenant = { id: tenant.id, plan: tenant.plan };
+ *   },
+ * };
+ *
+ * app.use('*', wideLogger<TenantContext>({ plugins: [tenantPlugin] }));
+ * ```
+ */
+export interface WideLoggerPlugin<TContext extends ContextSchema = {}> {
+  /**
+   * Shown when a hook fails or runs over budget
+   */
+  name: string;
+
+  /**
+   * Budget for each async hook of this plugin
+   * @default the middleware's pluginTimeoutMs
+   */
+  timeoutMs?: number;
+
+  /**
+   * Before the handler runs; `c.get('wide-logger')` is already set
+   */
+  onRequest?: (c: Context, event: Partial<WideEvent<TContext>>) => HookResult;
+
+  /**
+   * Once the handler has responded (also through Hono's error handler),
+   * with status and duration set
+   */
+  onResponse?: (c: Context, event: Partial<WideEvent<TContext>>) => HookResult;
+
+  /**
+   * When the request failed with an error, before `onResponse`
+   */
+  onError?: (
+    c: Context,
+    event: Partial<WideEvent<TContext>>,
+    error: unknown,
+  ) => HookResult;
+
+  /**
+   * On the complete event, once it has been sampled in and before
+   * redaction, validation and delivery
+   */
+  beforeEmit?: (event: WideEvent<TContext>) => HookResult;
+}
+
+/**
+ * Name of a plugin lifecycle hook
+ */
+export type PluginHook = "onRequest" | "onResponse" | "onError" | "beforeEmit";
+
+/**
+ * Create a runner calling one hook on every plugin that has it, in order
+ * Returns undefined when every hook finished synchronously, so requests
+ * without async plugins never wait on a promise.
+ */
+export function createHookRunner<TContext extends ContextSchema = {}>(
+  plugins: WideLoggerPlugin<TContext>[],
+  timeoutMs: number,
+  onError: (
+    error: unknown,
+    plugin: WideLoggerPlugin<TContext>,
+    hook: PluginHook,
+  ) => void,
+): (
+  hook: PluginHook,
+  call: (plugin: WideLoggerPlugin<TContext>) => HookResult,
+) => Promise<void> | undefined {
+  const settle = (
+    plugin: WideLoggerPlugin<TContext>,
+    hook: PluginHook,
+    call: (plugin: WideLoggerPlugin<TContext>) => HookResult,
+  ): Promise<void> | undefined => {
+    let result: HookResult;
+    try {
+      result = call(plugin);
+    } catch (error) {
+      onError(error, plugin, hook);
+      return undefined;
+    }
+    if (!(result instanceof Promise)) return undefined;
+
+    const budget = plugin.timeoutMs ?? timeoutMs;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<void>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`${hook} exceeded its ${budget}ms budget`)),
+        budget,
+      );
+    });
+    return Promise.race([result, timeout])
+      .catch((error) => onError(error, plugin, hook))
+      .finally(() => clearTimeout(timer));
+  };
+
+  return (hook, call) => {
+    const active = plugins.filter((plugin) => plugin[hook]);
+
+    // Sequential, so later plugins can build on what earlier ones added
+    const runFrom = (start: number): Promise<void> | undefined => {
+      for (let i = start; i < active.length; i++) {
+        const pending = settle(active[i], hook, call);
+        if (pending) return pending.then(() => runFrom(i + 1));
+      }
+      return undefined;
+    };
+    return runFrom(0);
+  };
+}
@@ -0,0 +1,108 @@
+import type { Context } from "hono";
+
+/**
+ * A unit of background delivery work (e.g. a storage write)
+ */
+export type DeliveryTask = () => Promise<void> | void;
+
+/**
+ * In-process queue that drains delivery tasks in the background
+ */
+export interface EventQueue {
+  /**
+   * Enqueue a task - it runs after the current response path has moved on
+   */
+  push(task: DeliveryTask): void;
+
+  /**
+   * Resolve once every queued task has settled
+   */
+  flush(): Promise<void>;
+
+  /**
+   * Stop accepting new tasks and drain the remaining ones
+   */
+  shutdown(): Promise<void>;
+
+  /**
+   * Number of tasks waiting to run
+   */
+  readonly size: number;
+}
+
+/**
+ * Create a background delivery queue
+ * Tasks run one at a time; failures are reported through `onError`
+ * and never reach the request that produced the event.
+ */
+export function createEventQueue(
+  onError: (error: unknown) => void,
+): EventQueue {
+  const tasks: DeliveryTask[] = [];
+  let draining: Promise<void> | undefined;
+  let closed = false;
+
+  const drain = async () => {
+    while (tasks.length > 0) {
+      const task = tasks.shift()!;
+      try {
+        await task();
+      } catch (error) {
+        onError(error);
+      }
+    }
+  };
+
+  const schedule = () => {
+    if (draining) return;
+    draining = Promise.resolve()
+      .then(drain)
+      .finally(() => {
+        draining = undefined;
+        // A task may have been pushed while the loop was winding down
+        if (tasks.length > 0) schedule();
+      });
+  };
+
+  const flush = async () => {
+    while (draining) {
+      await draining;
+    }
+  };
+
+  return {
+    push: (task) => {
+      if (closed) {
+        onError(new Error("Event queue is shut down, task dropped"));
+        return;
+      }
+      tasks.push(task);
+      schedule();
+    },
+    flush,
+    shutdown: async () => {
+      closed = true;
+      await flush();
+    },
+    get size() {
+      return tasks.length;
+    },
+  };
+}
+
+/**
+ * Get the runtime's `waitUntil` (Cloudflare Workers and similar), if any
+ * Hono throws when the context has no ExecutionContext, so probe safely.
+ */
+export function getWaitUntil(
+  c: Context,
+): ((promise: Promise<unknown>) => void) | undefined {
+  try {
+    const ctx = c.executionCtx;
+    return typeof ctx?.waitUntil === "function"
+      ? ctx.waitUntil.bind(ctx)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
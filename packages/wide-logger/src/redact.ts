@@ -0,0 +1,218 @@
+import type { WideEvent } from "./types";
+import { sha256 } from "./hash";
+
+/**
+ * How a matched value is scrubbed
+ * - remove: drop the field from the event
+ * - mask: replace with the mask string
+ * - hash: replace with a salted SHA-256, so values stay joinable but unreadable
+ */
+export type RedactStrategy = "remove" | "mask" | "hash";
+
+/**
+ * Built-in value matchers
+ */
+export const redactPatterns = {
+  credit_card: /\b(?:\d[ -]?){12,18}\d\b/g,
+  jwt: /\beyJ[\w-]+\.[\w-]+\.[\w-]*/g,
+  email: /[\w.%+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}/gi,
+} satisfies Record<string, RegExp>;
+
+export type RedactPatternName = keyof typeof redactPatterns;
+
+/**
+ * A single redaction rule
+ * With `path` only, the whole value at that path is scrubbed. With `pattern`,
+ * only matching substrings of string values are (or the field is removed),
+ * optionally restricted to `path`.
+ */
+export interface RedactRule {
+  /**
+   * Dotted path, e.g. `user.email`; `*` matches one segment, `**` any depth
+   */
+  path?: string;
+
+  /**
+   * Value matcher - a built-in pattern name or a RegExp
+   */
+  pattern?: RedactPatternName | RegExp;
+
+  /**
+   * @default the RedactOptions strategy
+   */
+  strategy?: RedactStrategy;
+}
+
+/**
+ * Redaction configuration for wideLogger
+ */
+export interface RedactOptions {
+  /**
+   * Rules to apply; a string is shorthand for `{ path }`
+   */
+  rules: (string | RedactRule)[];
+
+  /**
+   * Default strategy for rules that don't set one
+   * @default 'mask'
+   */
+  strategy?: RedactStrategy;
+
+  /**
+   * Replacement used by the mask strategy
+   * @default '[REDACTED]'
+   */
+  mask?: string;
+
+  /**
+   * Salt prepended to values before hashing
+   * @default ''
+   */
+  salt?: string;
+}
+
+interface CompiledRule {
+  segments?: string[];
+  pattern?: RegExp;
+  strategy: RedactStrategy;
+}
+
+// Sentinel for "drop this field"
+const REMOVE = Symbol("remove");
+
+/**
+ * Match a path against a rule's segments (`*` = one segment, `**` = any depth)
+ */
+function matchPath(
+  segments: string[],
+  path: string[],
+  si = 0,
+  pi = 0,
+): boolean {
+  if (si === segments.length) return pi === path.length;
+  const segment = segments[si];
+  if (segment === "**") {
+    for (let i = pi; i <= path.length; i++) {
+      if (matchPath(segments, path, si + 1, i)) return true;
+    }
+    return false;
+  }
+  if (pi === path.length) return false;
+  if (segment !== "*" && segment !== path[pi]) return false;
+  return matchPath(segments, path, si + 1, pi + 1);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== "object") return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+// Digits-only Luhn check, to keep the card pattern from eating order numbers
+function luhn(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, "");
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Create a redactor from options
+ * The returned function produces a scrubbed copy and never mutates its input.
+ *
+ * @example
+ * ```typescript
+ * const redact = createRedactor({
+ *   rules: [
+ *     'query_params.token',
+ *     { path: 'user.email', strategy: 'hash' },
+ *     { pattern: 'credit_card' },
+ *   ],
+ *   salt: process.env.LOG_SALT,
+ * });
+ * ```
+ */
+export function createRedactor(
+  options: RedactOptions,
+): <T extends Partial<WideEvent>>(event: T) => T {
+  const defaultStrategy = options.strategy ?? "mask";
+  const mask = options.mask ?? "[REDACTED]";
+  const salt = options.salt ?? "";
+
+  const rules: CompiledRule[] = options.rules.map((rule) => {
+    const { path, pattern, strategy } =
+      typeof rule === "string" ? ({ path: rule } as RedactRule) : rule;
+    const regex =
+      typeof pattern === "string" ? redactPatterns[pattern] : pattern;
+    return {
+      segments: path?.split("."),
+      // Always global so every occurrence is replaced
+      pattern: regex
+        ? new RegExp(regex.source, regex.flags.replace("g", "") + "g")
+        : undefined,
+      strategy: strategy ?? defaultStrategy,
+    };
+  });
+
+  const isCard = (rule: CompiledRule) =>
+    rule.pattern?.source === redactPatterns.credit_card.source;
+
+  const scrub = (value: unknown, strategy: RedactStrategy) => {
+    if (strategy === "remove") return REMOVE;
+    if (strategy === "mask") return mask;
+    const text = typeof value === "string" ? value : JSON.stringify(value);
+    return sha256(salt + text);
+  };
+
+  const visit = (value: unknown, path: string[]): unknown => {
+    for (const rule of rules) {
+      if (rule.pattern || !rule.segments) continue;
+      if (matchPath(rule.segments, path)) return scrub(value, rule.strategy);
+    }
+
+    if (typeof value === "string") {
+      let result = value;
+      for (const rule of rules) {
+        if (!rule.pattern) continue;
+        if (rule.segments && !matchPath(rule.segments, path)) continue;
+
+        const card = isCard(rule);
+        let matched = false;
+        const replaced = result.replace(rule.pattern, (match) => {
+          if (card && !luhn(match)) return match;
+          matched = true;
+          return rule.strategy === "hash" ? sha256(salt + match) : mask;
+        });
+        if (matched && rule.strategy === "remove") return REMOVE;
+        result = replaced;
+      }
+      return result;
+    }
+
+    if (Array.isArray(value)) {
+      return value
+        .map((item, index) => visit(item, [...path, String(index)]))
+        .filter((item) => item !== REMOVE);
+    }
+
+    if (isPlainObject(value)) {
+      const copy: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(value)) {
+        const next = visit(child, [...path, key]);
+        if (next !== REMOVE) copy[key] = next;
+      }
+      return copy;
+    }
+
+    return value;
+  };
+
+  return (event) => visit(event, []) as typeof event;
+}
@@ -0,0 +1,58 @@
+import type { Context } from "hono";
+import { env, getRuntimeKey } from "hono/adapter";
+
+/**
+ * Where the app is running, stamped into the event's `infra` context
+ */
+export interface RuntimeInfo {
+  runtime: string; // workerd, node, bun, deno, fastly, edge-light, other
+  environment?: string;
+  region?: string;
+}
+
+// Env vars checked, in order, when no environment is configured
+const ENVIRONMENT_VARS = ["NODE_ENV", "ENVIRONMENT", "APP_ENV"];
+
+// Env vars set by common hosts to the region an instance runs in
+const REGION_VARS = ["REGION", "AWS_REGION", "FLY_REGION", "VERCEL_REGION"];
+
+/**
+ * Read the runtime's environment variables without assuming `process`
+ * Deno throws without --allow-env, and Workers have no env outside bindings.
+ */
+function readEnv(c: Context): Record<string, unknown> {
+  try {
+    return (env(c) as Record<string, unknown> | undefined) ?? {};
+  } catch {
+    return {};
+  }
+}
+
+const firstString = (vars: Record<string, unknown>, keys: string[]) => {
+  for (const key of keys) {
+    const value = vars[key];
+    if (typeof value === "string" && value) return value;
+  }
+  return undefined;
+};
+
+/**
+ * Detect runtime, environment and region for a request
+ * On Cloudflare Workers the region is the serving colo (`cf.colo`).
+ */
+export function detectRuntime(c: Context, environment?: string): RuntimeInfo {
+  const vars = readEnv(c);
+  const cf = (c.req.raw as { cf?: { colo?: unknown } }).cf;
+
+  const info: RuntimeInfo = { runtime: getRuntimeKey() };
+
+  const resolvedEnvironment =
+    environment ?? firstString(vars, ENVIRONMENT_VARS);
+  if (resolvedEnvironment) info.environment = resolvedEnvironment;
+
+  const region =
+    typeof cf?.colo === "string" ? cf.colo : firstString(vars, REGION_VARS);
+  if (region) info.region = region;
+
+  return info;
+}
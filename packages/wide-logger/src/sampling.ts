@@ -1,30 +1,329 @@
-import type { WideEvent } from "./types";
+import type {
+  ContextSchema,
+  SampleBy,
+  SampleDecision,
+  SamplingRule,
+  StatusClass,
+  StatusDecision,
+  StatusPolicy,
+  WideEvent,
+} from "./types";
+import { sha256 } from "./hash";
+import { isSampled } from "./trace";
+
+/**
+ * Status policy inputs, as accepted by wideLogger
+ */
+export interface StatusPolicyOptions {
+  errorCode?: 400 | 500;
+  statusPolicy?: StatusPolicy;
+}
+
+/**
+ * Options for the default sampling strategy
+ */
+export interface DefaultSamplingOptions {
+  slowThresholdMs: number;
+  sampleRate: number;
+
+  /**
+   * @default 'random'
+   */
+  sampleBy?: SampleBy;
+
+  /**
+   * Follow the sampled flag of an incoming traceparent for events no
+   * always-keep rule claims
+   * @default false
+   */
+  honorUpstream?: boolean;
+}
+
+/**
+ * Apply a status policy to a response status
+ * Per-status overrides win, then the always-logged classes; anything else
+ * is left to the remaining sampling rules.
+ *
+ * @example
+ * ```typescript
+ * getStatusDecision(429, { statusPolicy: { overrides: { 429: 'keep' } } }); // 'keep'
+ * getStatusDecision(404, { errorCode: 400 }); // 'keep'
+ * getStatusDecision(404, {}); // undefined
+ * ```
+ */
+export function getStatusDecision(
+  status: number | undefined,
+  options: StatusPolicyOptions,
+): StatusDecision {
+  if (status === undefined) return undefined;
+
+  const override = options.statusPolicy?.overrides?.[status];
+  if (override) return override;
+
+  const alwaysLog: StatusClass[] =
+    options.statusPolicy?.alwaysLog ??
+    (options.errorCode === 400 ? ["4xx", "5xx"] : ["5xx"]);
+  const statusClass = `${Math.floor(status / 100)}xx` as StatusClass;
+  return alwaysLog.includes(statusClass) ? "keep" : undefined;
+}
+
+type Predicate<TContext extends ContextSchema> = (
+  event: WideEvent<TContext>,
+) => boolean;
+
+/**
+ * Keep events matching `predicate`; no opinion otherwise
+ */
+export function keepIf<TContext extends ContextSchema = {}>(
+  predicate: Predicate<TContext>,
+  reason = "keep_if",
+): SamplingRule<TContext> {
+  return (event) =>
+    predicate(event) ? { keep: true, reason, rate: 1 } : undefined;
+}
+
+/**
+ * Drop events matching `predicate`; no opinion otherwise
+ */
+export function dropIf<TContext extends ContextSchema = {}>(
+  predicate: Predicate<TContext>,
+  reason = "drop_if",
+): SamplingRule<TContext> {
+  return (event) =>
+    predicate(event) ? { keep: false, reason, rate: 0 } : undefined;
+}
+
+/**
+ * Keep events whose value at a dotted path matches `predicate`
+ *
+ * @example
+ * ```typescript
+ * keepWhen('user.tier', (tier) => tier === 'enterprise');
+ * ```
+ */
+export function keepWhen<TContext extends ContextSchema = {}>(
+  path: string,
+  predicate: (value: unknown) => boolean,
+  reason = `keep_when:${path}`,
+): SamplingRule<TContext> {
+  const segments = path.split(".");
+  return keepIf((event) => {
+    let value: unknown = event;
+    for (const segment of segments) {
+      if (!value || typeof value !== "object") return false;
+      value = (value as Record<string, unknown>)[segment];
+    }
+    return predicate(value);
+  }, reason);
+}
+
+/**
+ * Map an ID to a stable number in [0, 1)
+ * SHA-256 based, so services in any language can reproduce the decision.
+ */
+export function hashToUnit(id: string): number {
+  return parseInt(sha256(id).slice(0, 13), 16) / 16 ** 13;
+}
+
+// A number in [0, 1) compared against the rate; hashed IDs make every
+// service that sees the same trace or request reach the same verdict
+function roll(event: WideEvent, sampleBy: SampleBy): number {
+  const id = sampleBy === "random" ? undefined : event[sampleBy];
+  return id ? hashToUnit(id) : Math.random();
+}
+
+/**
+ * Keep a fraction of events, at random or deterministically by ID
+ *
+ * @example
+ * ```typescript
+ * rate(0.05, 'rate', 'trace_id'); // same 5% of traces in every service
+ * ```
+ */
+export function rate<TContext extends ContextSchema = {}>(
+  sampleRate: number,
+  reason = "rate",
+  sampleBy: SampleBy = "random",
+): SamplingRule<TContext> {
+  return (event) => ({
+    keep: roll(event, sampleBy) < sampleRate,
+    reason,
+    rate: sampleRate,
+  });
+}
+
+/**
+ * Keep a fraction of events, with rates keyed by route, method or status. Status keys may be exact (`'404'`) or a class (`'4xx'`); `'*'`
+ * applies to anything unlisted. No opinion when nothing matches.
+ *
+ * @example
+ * ```typescript
+ * rateBy('route', { '/health': 0.001, '/checkout': 1, '*': 0.05 });
+ * ```
+ */
+export function rateBy<TContext extends ContextSchema = {}>(
+  by: "route" | "method" | "status",
+  rates: Record<string, number>,
+  sampleBy: SampleBy = "random",
+): SamplingRule<TContext> {
+  const keysFor = (event: WideEvent<TContext>): (string | undefined)[] => {
+    if (by === "route") return [event.route ?? event.path];
+    if (by === "method") return [event.method];
+    if (event.status_code === undefined) return [];
+    return [
+      String(event.status_code),
+      `${Math.floor(event.status_code / 100)}xx`,
+    ];
+  };
+
+  return (event) => {
+    const key = [...keysFor(event), "*"].find(
+      (candidate) => candidate !== undefined && candidate in rates,
+    );
+    if (key === undefined) return undefined;
+    const sampleRate = rates[key];
+    return {
+      keep: roll(event, sampleBy) < sampleRate,
+      reason: `${by}:${key}`,
+      rate: sampleRate,
+    };
+  };
+}
+
+/**
+ * Honor the configured status policy (`errorCode` / `statusPolicy`)
+ */
+export function byStatus<
+  TContext extends ContextSchema = {},
+>(): SamplingRule<TContext> {
+  return (event, context) =>
+    context.status
+      ? {
+          keep: context.status === "keep",
+          reason: `status:${event.status_code}`,
+          rate: context.status === "keep" ? 1 : 0,
+        }
+      : undefined;
+}
+
+/**
+ * Follow the caller's sampled flag from an incoming traceparent, so a trace
+ * is kept or dropped as a whole. No opinion for requests that start a trace.
+ * The caller's rate is unknown here, so kept events record a rate of 1.
+ */
+export function upstream<
+  TContext extends ContextSchema = {},
+>(): SamplingRule<TContext> {
+  return (event) => {
+    if (!event.parent_span_id || !event.trace_flags) return undefined;
+    return isSampled(event.trace_flags)
+      ? { keep: true, reason: "upstream", rate: 1 }
+      : { keep: false, reason: "upstream", rate: 0 };
+  };
+}
+
+/**
+ * The first rule with an opinion decides
+ */
+export function first<TContext extends ContextSchema = {}>(
+  ...rules: SamplingRule<TContext>[]
+): SamplingRule<TContext> {
+  return (event, context) => {
+    for (const rule of rules) {
+      const decision = rule(event, context);
+      if (decision) return decision;
+    }
+    return undefined;
+  };
+}
+
+/**
+ * Keep if any rule keeps; drop if the only opinions are drops
+ */
+export function any<TContext extends ContextSchema = {}>(
+  ...rules: SamplingRule<TContext>[]
+): SamplingRule<TContext> {
+  return (event, context) => {
+    let dropped: SampleDecision | undefined;
+    for (const rule of rules) {
+      const decision = rule(event, context);
+      if (decision?.keep) return decision;
+      dropped ??= decision;
+    }
+    return dropped;
+  };
+}
+
+/**
+ * Keep only if every rule keeps; the first drop decides otherwise, and any
+ * rule without an opinion leaves the whole rule without one
+ */
+export function all<TContext extends ContextSchema = {}>(
+  ...rules: SamplingRule<TContext>[]
+): SamplingRule<TContext> {
+  return (event, context) => {
+    const kept: SampleDecision[] = [];
+    for (const rule of rules) {
+      const decision = rule(event, context);
+      if (!decision || !decision.keep) return decision;
+      kept.push(decision);
+    }
+    if (kept.length === 0) return undefined;
+    return {
+      keep: true,
+      reason: kept.map((decision) => decision.reason).join("+"),
+      rate: kept.reduce((product, decision) => product * decision.rate, 1),
+    };
+  };
+}
+
+/**
+ * The rules behind defaultSampling, for composing with your own
+ *
+ * @example
+ * ```typescript
+ * sampling: first(
+ *   dropIf((event) => event.route === '/health'),
+ *   defaultRules({ slowThresholdMs: 2000, sampleRate: 0.05 }),
+ * );
+ * ```
+ */
+export function defaultRules<TContext extends ContextSchema = {}>(
+  options: DefaultSamplingOptions,
+): SamplingRule<TContext> {
+  const rules: SamplingRule<TContext>[] = [
+    byStatus(),
+    keepIf((event) => !!event.error, "error"),
+    keepIf(
+      (event) => (event.duration_ms ?? 0) > options.slowThresholdMs,
+      "slow",
+    ),
+    keepWhen(
+      "user.tier",
+      (tier) => tier === "enterprise" || tier === "premium",
+      "vip",
+    ),
+  ];
+  if (options.honorUpstream) rules.push(upstream());
+  rules.push(rate(options.sampleRate, "rate", options.sampleBy));
+  return first(...rules);
+}
 
 /**
  * Default sampling strategy for wide events
- * - Always keep errors (status >= 500 or has error field)
+ * - Apply the status policy (5xx by default, see `errorCode`/`statusPolicy`)
+ * - Always keep errors (has error field)
  * - Always keep slow requests (> threshold)
  * - Always keep VIP users (enterprise/premium tier)
- * - Random sample the rest
+ * - Optionally follow the upstream sampled flag
+ * - Sample the rest, at random or by hashing an ID
  */
 export function defaultSampling(
   event: WideEvent,
-  options: { slowThresholdMs: number; sampleRate: number },
+  options: DefaultSamplingOptions & StatusPolicyOptions,
 ): boolean {
-  // Always keep errors
-  if (event.status_code && event.status_code >= 500) return true;
-  if (event.error) return true;
-
-  // Always keep slow requests
-  if (event.duration_ms && event.duration_ms > options.slowThresholdMs) {
-    return true;
-  }
-
-  // Always keep VIP users (enterprise/premium tier)
-  if (event.user?.tier === "enterprise" || event.user?.tier === "premium") {
-    return true;
-  }
-
-  // Random sample the rest
-  return Math.random() < options.sampleRate;
+  const decision = defaultRules(options)(event, {
+    status: getStatusDecision(event.status_code, options),
+  });
+  return decision?.keep ?? false;
 }
@@ -0,0 +1,125 @@
+import type { WideEvent } from "./types";
+
+/**
+ * Minimal Standard Schema v1 interface, implemented by Zod, Valibot, ArkType...
+ * Copied per the spec's recommendation rather than adding a dependency.
+ * @see https://standardschema.dev
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) =>
+      | StandardSchemaV1.Result<Output>
+      | Promise<StandardSchemaV1.Result<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+}
+
+export declare namespace StandardSchemaV1 {
+  type Result<Output> =
+    | { readonly value: Output; readonly issues?: undefined }
+    | { readonly issues: ReadonlyArray<Issue> };
+
+  interface Issue {
+    readonly message: string;
+    readonly path?: ReadonlyArray<PropertyKey | PathSegment>;
+  }
+
+  interface PathSegment {
+    readonly key: PropertyKey;
+  }
+}
+
+/**
+ * What to do with an event that fails validation
+ * - drop: don't emit it
+ * - coerce: emit the schema's output (coercions/transforms applied); if
+ *   invalid, strip the offending fields and annotate
+ * - annotate: emit it unchanged with a `_schema_errors` field
+ */
+export type SchemaMode = "drop" | "coerce" | "annotate";
+
+/**
+ * A validation failure recorded on an annotated event
+ */
+export interface SchemaError {
+  path: string;
+  message: string;
+}
+
+/**
+ * Result of validating one event
+ */
+export interface ValidationOutcome {
+  /**
+   * The event to emit, or undefined to drop it
+   */
+  event: WideEvent | undefined;
+  valid: boolean;
+}
+
+const toPath = (issue: StandardSchemaV1.Issue): PropertyKey[] =>
+  (issue.path ?? []).map((segment) =>
+    typeof segment === "object" ? segment.key : segment,
+  );
+
+// Remove the field at a path from a (shallow-copied along the way) object
+function stripPath(target: Record<string, any>, path: PropertyKey[]) {
+  if (path.length === 0) return target;
+  const [head, ...rest] = path as string[];
+  if (!(head in target)) return target;
+  const copy: Record<string, any> = Array.isArray(target)
+    ? [...target]
+    : { ...target };
+  if (rest.length === 0) {
+    delete copy[head];
+  } else if (copy[head] && typeof copy[head] === "object") {
+    copy[head] = stripPath(copy[head], rest);
+  }
+  return copy;
+}
+
+function resolve(
+  result: StandardSchemaV1.Result<unknown>,
+  event: WideEvent,
+  mode: SchemaMode,
+): ValidationOutcome {
+  if (!result.issues) {
+    const value = mode === "coerce" ? (result.value as WideEvent) : event;
+    return { event: value, valid: true };
+  }
+
+  if (mode === "drop") return { event: undefined, valid: false };
+
+  const errors: SchemaError[] = result.issues.map((issue) => ({
+    path: toPath(issue).map(String).join("."),
+    message: issue.message,
+  }));
+
+  let output = event;
+  if (mode === "coerce") {
+    for (const issue of result.issues) {
+      output = stripPath(output, toPath(issue)) as WideEvent;
+    }
+  }
+
+  return { event: { ...output, _schema_errors: errors }, valid: false };
+}
+
+/**
+ * Validate a finalized event against a Standard Schema
+ * Returns synchronously for sync validators, so emission stays inline.
+ */
+export function validateEvent(
+  schema: StandardSchemaV1,
+  mode: SchemaMode,
+  event: WideEvent,
+): ValidationOutcome | Promise<ValidationOutcome> {
+  const result = schema["~standard"].validate(event);
+  return result instanceof Promise
+    ? result.then((settled) => resolve(settled, event, mode))
+    : resolve(result, event, mode);
+}
@@ -0,0 +1,42 @@
+/**
+ * Parse a content-length header value
+ */
+export function parseContentLength(
+  value: string | null | undefined,
+): number | undefined {
+  if (!value) return undefined;
+  const length = Number(value);
+  return Number.isInteger(length) && length >= 0 ? length : undefined;
+}
+
+/**
+ * Count bytes flowing through a body stream without buffering it
+ * Returns the stream to hand on in place of the original body. `onDone` is
+ * called once with the total, when the body finishes or is cancelled/errors -
+ * on success, before the consumer sees the end of the stream.
+ */
+export function countBytes(
+  body: ReadableStream<Uint8Array>,
+  onDone: (bytes: number) => void,
+): ReadableStream<Uint8Array> {
+  let bytes = 0;
+  let finished = false;
+  const finish = () => {
+    if (finished) return;
+    finished = true;
+    onDone(bytes);
+  };
+
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      bytes += chunk.byteLength;
+      controller.enqueue(chunk);
+    },
+    flush: finish,
+  });
+
+  // Rejects when the consumer cancels or the source errors
+  body.pipeTo(writable).catch(finish);
+
+  return readable;
+}
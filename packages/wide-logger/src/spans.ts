@@ -0,0 +1,75 @@
+import type { Span, SpanStatus, WideEvent, WideLoggerContext } from "./types";
+
+const round = (ms: number) => Math.round(ms * 100) / 100;
+
+/**
+ * Create the span API for one request
+ * Finished spans are appended to `event.spans` (up to `maxSpans`) and always
+ * rolled up into `event.span_rollups` under their name prefix.
+ */
+export function createSpanRecorder(
+  event: Partial<WideEvent>,
+  maxSpans: number,
+): Pick<WideLoggerContext, "startSpan" | "time"> {
+  const requestStart = performance.now();
+
+  const startSpan = (name: string, attributes?: Record<string, any>): Span => {
+    const start = performance.now();
+    let attrs = attributes ? { ...attributes } : undefined;
+    let ended = false;
+
+    return {
+      setAttributes: (data) => {
+        attrs = { ...attrs, ...data };
+      },
+      end: (status: SpanStatus = "ok") => {
+        if (ended) return;
+        ended = true;
+
+        const duration = round(performance.now() - start);
+
+        const group = name.split(".")[0]!;
+        const rollups = (event.span_rollups ??= {});
+        const rollup = (rollups[group] ??= {
+          count: 0,
+          total_ms: 0,
+          error_count: 0,
+        });
+        rollup.count++;
+        rollup.total_ms = round(rollup.total_ms + duration);
+        if (status === "error") rollup.error_count++;
+
+        const spans = (event.spans ??= []);
+        if (spans.length >= maxSpans) {
+          event.spans_dropped = (event.spans_dropped ?? 0) + 1;
+          return;
+        }
+        spans.push({
+          name,
+          start_offset_ms: round(start - requestStart),
+          duration_ms: duration,
+          status,
+          ...(attrs && { attributes: attrs }),
+        });
+      },
+    };
+  };
+
+  const time = async <T>(
+    name: string,
+    fn: (span: Span) => Promise<T> | T,
+    attributes?: Record<string, any>,
+  ): Promise<T> => {
+    const span = startSpan(name, attributes);
+    try {
+      const result = await fn(span);
+      span.end("ok");
+      return result;
+    } catch (error) {
+      span.end("error");
+      throw error;
+    }
+  };
+
+  return { startSpan, time };
+}
@@ -0,0 +1,290 @@
+import type { Storage, WideEvent } from "./types";
+
+/**
+ * Comparison used by a query filter
+ */
+export type FilterOperator = "=" | "!=" | ">" | ">=" | "<" | "<=";
+
+/**
+ * Match events on one field, addressed by dot path (e.g. `user.id`)
+ */
+export interface EventFilter {
+  field: string;
+  op: FilterOperator;
+  value: unknown;
+}
+
+/**
+ * Sort order for query results
+ */
+export interface EventSort {
+  field: string;
+  order?: "asc" | "desc";
+}
+
+/**
+ * Query over stored events
+ */
+export interface EventQuery {
+  /**
+   * Filters every event must match - objects, or expressions such as
+   * `'status_code >= 500'` and `'user.id = u_1'`
+   */
+  where?: (EventFilter | string)[];
+
+  /**
+   * Events with a timestamp at or after this (Date, ms or ISO string)
+   */
+  since?: Date | number | string;
+
+  /**
+   * Events with a timestamp before this (Date, ms or ISO string)
+   */
+  until?: Date | number | string;
+
+  /**
+   * Sort field and order, or a field name with `-` for descending
+   * @default '-timestamp'
+   */
+  sort?: EventSort | string;
+
+  /**
+   * Events per page
+   * @default 100
+   */
+  limit?: number;
+
+  /**
+   * Matching events to skip - pass the previous page's `nextOffset`
+   * @default 0
+   */
+  offset?: number;
+}
+
+/**
+ * A page of query results
+ */
+export interface EventQueryResult {
+  events: WideEvent[];
+  total: number; // Matching events across all pages
+  nextOffset?: number; // Set while more pages remain
+}
+
+/**
+ * Options for the in-memory event store
+ */
+export interface EventStoreOptions {
+  /**
+   * Events kept; the oldest stored are evicted first
+   * @default 10_000
+   */
+  maxEvents?: number;
+
+  /**
+   * Drop events whose timestamp is older than this
+   * @default undefined (kept until evicted by maxEvents)
+   */
+  maxAgeMs?: number;
+}
+
+/**
+ * Bounded, queryable event store - use it as wideLogger's `storage`
+ */
+export interface EventStore extends Storage {
+  set(key: string, value: WideEvent): Promise<void> | void;
+  get(key: string): WideEvent | undefined;
+  delete(key: string): Promise<void> | void;
+
+  /**
+   * Filter, sort and page through stored events
+   */
+  query(query?: EventQuery): EventQueryResult;
+
+  /**
+   * Stored events by key, oldest first
+   */
+  entries(): [string, WideEvent][];
+
+  /**
+   * Remove every event
+   */
+  clear(): Promise<void> | void;
+
+  /**
+   * Number of events stored
+   */
+  readonly size: number;
+}
+
+const FILTER = /^\s*([\w.-]+)\s*(>=|<=|!=|=|>|<)\s*(.*?)\s*$/;
+
+// Filter values from expressions: quoted strings stay strings, numbers and
+// literals are converted, anything else is taken as a bare string
+function parseValue(raw: string): unknown {
+  const quoted = raw.match(/^(["'])(.*)\1$/);
+  if (quoted) return quoted[2];
+  if (raw === "true") return true;
+  if (raw === "false") return false;
+  if (raw === "null") return null;
+  if (raw !== "" && !Number.isNaN(Number(raw))) return Number(raw);
+  return raw;
+}
+
+/**
+ * Parse a filter expression such as `status_code >= 500`
+ */
+export function parseFilter(expression: string): EventFilter {
+  const match = expression.match(FILTER);
+  if (!match) {
+    throw new Error(`[wide-logger] invalid filter: ${expression}`);
+  }
+  const [, field, op, value] = match;
+  return { field, op: op as FilterOperator, value: parseValue(value) };
+}
+
+const getField = (event: WideEvent, path: string): unknown => {
+  let value: unknown = event;
+  for (const segment of path.split(".")) {
+    if (!value || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+};
+
+// Numbers compare numerically, everything else as strings - which also
+// orders ISO timestamps correctly
+const compare = (a: unknown, b: unknown): number => {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  const left = String(a);
+  const right = String(b);
+  return left < right ? -1 : left > right ? 1 : 0;
+};
+
+function matches(event: WideEvent, filter: EventFilter): boolean {
+  const value = getField(event, filter.field);
+  // Missing fields only match `= null` / `!= <something>`
+  if (value === undefined || value === null) {
+    const missing = filter.value === undefined || filter.value === null;
+    if (filter.op === "=") return missing;
+    if (filter.op === "!=") return !missing;
+    return false;
+  }
+  // Loose equality, so `user.id = 123` finds the string ID "123"
+  const order = compare(value, filter.value);
+  switch (filter.op) {
+    case "=":
+      return String(value) === String(filter.value);
+    case "!=":
+      return String(value) !== String(filter.value);
+    case ">":
+      return order > 0;
+    case ">=":
+      return order >= 0;
+    case "<":
+      return order < 0;
+    case "<=":
+      return order <= 0;
+  }
+}
+
+const toTime = (value: Date | number | string | undefined) =>
+  value === undefined ? undefined : new Date(value).getTime();
+
+const parseSort = (sort: EventQuery["sort"]): EventSort => {
+  if (typeof sort !== "string") {
+    return sort ?? { field: "timestamp", order: "desc" };
+  }
+  return sort.startsWith("-")
+    ? { field: sort.slice(1), order: "desc" }
+    : { field: sort, order: "asc" };
+};
+
+/**
+ * Create a bounded in-memory event store with a query API
+ *
+ * @example
+ * ```typescript
+ * const store = createEventStore({ maxEvents: 5_000 });
+ * app.use('*', wideLogger({ storage: store }));
+ *
+ * store.query({
+ *   where: ['status_code >= 500', 'user.tier = premium'],
+ *   since: Date.now() - 15 * 60_000,
+ *   sort: '-duration_ms',
+ *   limit: 20,
+ * });
+ * ```
+ */
+export function createEventStore(options: EventStoreOptions = {}): EventStore {
+  const maxEvents = options.maxEvents ?? 10_000;
+  // Map order is storage order, oldest first
+  const events = new Map<string, WideEvent>();
+
+  const evict = () => {
+    while (events.size > maxEvents) {
+      events.delete(events.keys().next().value!);
+    }
+    if (options.maxAgeMs === undefined) return;
+    // Events are stored roughly in timestamp order, so stop at the first
+    // one still inside the window
+    const cutoff = Date.now() - options.maxAgeMs;
+    for (const [key, event] of events) {
+      if (new Date(event.timestamp).getTime() >= cutoff) break;
+      events.delete(key);
+    }
+  };
+
+  return {
+    set: (key, value) => {
+      events.delete(key);
+      events.set(key, value);
+      evict();
+    },
+    get: (key) => events.get(key),
+    delete: (key) => {
+      events.delete(key);
+    },
+    query: (query = {}) => {
+      evict();
+      const filters = (query.where ?? []).map((filter) =>
+        typeof filter === "string" ? parseFilter(filter) : filter,
+      );
+      const since = toTime(query.since);
+      const until = toTime(query.until);
+
+      const matched = [...events.values()].filter((event) => {
+        const time = new Date(event.timestamp).getTime();
+        if (since !== undefined && time < since) return false;
+        if (until !== undefined && time >= until) return false;
+        return filters.every((filter) => matches(event, filter));
+      });
+
+      // Events missing the sort field go last either way
+      const { field, order = "asc" } = parseSort(query.sort);
+      const direction = order === "desc" ? -1 : 1;
+      matched.sort((a, b) => {
+        const left = getField(a, field);
+        const right = getField(b, field);
+        if (left === undefined) return right === undefined ? 0 : 1;
+        if (right === undefined) return -1;
+        return compare(left, right) * direction;
+      });
+
+      const offset = query.offset ?? 0;
+      const limit = query.limit ?? 100;
+      const end = offset + limit;
+      return {
+        events: matched.slice(offset, end),
+        total: matched.length,
+        ...(end < matched.length && { nextOffset: end }),
+      };
+    },
+    entries: () => [...events],
+    clear: () => {
+      events.clear();
+    },
+    get size() {
+      return events.size;
+    },
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * W3C Trace Context (traceparent / tracestate) helpers
+ * @see https://www.w3.org/TR/trace-context/
+ */
+
+/**
+ * Parsed traceparent header
+ */
+export interface TraceParent {
+  version: string;
+  traceId: string;
+  parentId: string;
+  flags: string;
+}
+
+const TRACEPARENT_RE =
+  /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+
+/**
+ * Parse a traceparent header, returning undefined if it is invalid
+ */
+export function parseTraceparent(
+  header: string | null | undefined,
+): TraceParent | undefined {
+  const match = header?.trim().toLowerCase().match(TRACEPARENT_RE);
+  if (!match) return undefined;
+
+  const [, version, traceId, parentId, flags, rest] = match;
+  // Version ff is forbidden; version 00 allows no trailing fields
+  if (version === "ff" || (version === "00" && rest)) return undefined;
+  // All-zero IDs are invalid
+  if (/^0+$/.test(traceId) || /^0+$/.test(parentId)) return undefined;
+
+  return { version, traceId, parentId, flags };
+}
+
+/**
+ * Format a version-00 traceparent header
+ */
+export function formatTraceparent(
+  traceId: string,
+  spanId: string,
+  flags: string,
+): string {
+  return `00-${traceId}-${spanId}-${flags}`;
+}
+
+const randomHex = (bytes: number) =>
+  Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (b) =>
+    b.toString(16).padStart(2, "0"),
+  ).join("");
+
+/**
+ * Generate a random 16-byte trace ID
+ */
+export function generateTraceId(): string {
+  return randomHex(16);
+}
+
+/**
+ * Generate a random 8-byte span ID
+ */
+export function generateSpanId(): string {
+  return randomHex(8);
+}
+
+/**
+ * Whether trace flags carry the sampled bit
+ */
+export function isSampled(flags: string): boolean {
+  return (parseInt(flags, 16) & 1) === 1;
+}
@@ -0,0 +1,206 @@
+import type { Transport, WideEvent } from "./types";
+
+/**
+ * Options for the batching transport
+ */
+export interface BatchTransportOptions {
+  /**
+   * Ship one batch of events to the sink
+   */
+  send: (batch: WideEvent[]) => Promise<void> | void;
+
+  /**
+   * Flush once this many events are buffered
+   * @default 100
+   */
+  maxBatchSize?: number;
+
+  /**
+   * Flush once the buffered events reach this many bytes (JSON-encoded)
+   * @default 1_000_000
+   */
+  maxBatchBytes?: number;
+
+  /**
+   * Flush buffered events at least this often
+   * @default 5000
+   */
+  flushIntervalMs?: number;
+
+  /**
+   * Maximum events held in memory; further events are dropped and counted
+   * @default 10_000
+   */
+  maxBufferSize?: number;
+
+  /**
+   * Retries per batch before it is given up on
+   * @default 3
+   */
+  maxRetries?: number;
+
+  /**
+   * Base delay for exponential backoff between retries
+   * @default 100
+   */
+  retryBaseDelayMs?: number;
+
+  /**
+   * Called when a batch still fails after all retries
+   */
+  onError?: (error: unknown, batch: WideEvent[]) => void;
+}
+
+/**
+ * Delivery counters for a batching transport
+ */
+export interface BatchTransportStats {
+  buffered: number;
+  sent: number;
+  failed: number;
+  dropped: number;
+}
+
+/**
+ * Transport with delivery counters
+ */
+export interface BatchTransport extends Transport {
+  readonly stats: BatchTransportStats;
+  close(): Promise<void>;
+}
+
+interface BufferedEvent {
+  event: WideEvent;
+  bytes: number;
+}
+
+const encoder = new TextEncoder();
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Create a transport that buffers events and ships them in batches
+ * A batch is flushed when it reaches `maxBatchSize` events or
+ * `maxBatchBytes`, or when `flushIntervalMs` elapses - whichever comes first.
+ *
+ * @example
+ * ```typescript
+ * const transport = createBatchTransport({
+ *   send: (batch) =>
+ *     fetch('https://collector.example.com/events', {
+ *       method: 'POST',
+ *       body: batch.map((e) => JSON.stringify(e)).join('\n'),
+ *     }).then(() => undefined),
+ * });
+ *
+ * app.use('*', wideLogger({ transport }));
+ * ```
+ */
+export function createBatchTransport(
+  options: BatchTransportOptions,
+): BatchTransport {
+  const maxBatchSize = options.maxBatchSize ?? 100;
+  const maxBatchBytes = options.maxBatchBytes ?? 1_000_000;
+  const flushIntervalMs = options.flushIntervalMs ?? 5000;
+  const maxBufferSize = options.maxBufferSize ?? 10_000;
+  const maxRetries = options.maxRetries ?? 3;
+  const retryBaseDelayMs = options.retryBaseDelayMs ?? 100;
+
+  const buffer: BufferedEvent[] = [];
+  let bufferedBytes = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let inflight: Promise<void> = Promise.resolve();
+  let closed = false;
+
+  const stats = { sent: 0, failed: 0, dropped: 0 };
+
+  const clearTimer = () => {
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+  };
+
+  const startTimer = () => {
+    if (timer !== undefined) return;
+    timer = setTimeout(() => {
+      timer = undefined;
+      void flush();
+    }, flushIntervalMs);
+    // Don't keep a Node process alive just to flush logs
+    if (typeof timer === "object" && "unref" in timer) timer.unref();
+  };
+
+  // Take the next batch off the buffer, bounded by count and bytes
+  const takeBatch = (): WideEvent[] => {
+    const batch: WideEvent[] = [];
+    let bytes = 0;
+    while (buffer.length > 0 && batch.length < maxBatchSize) {
+      const next = buffer[0]!;
+      if (batch.length > 0 && bytes + next.bytes > maxBatchBytes) break;
+      buffer.shift();
+      bufferedBytes -= next.bytes;
+      bytes += next.bytes;
+      batch.push(next.event);
+    }
+    return batch;
+  };
+
+  const sendWithRetry = async (batch: WideEvent[]) => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await options.send(batch);
+        stats.sent += batch.length;
+        return;
+      } catch (error) {
+        if (attempt >= maxRetries) {
+          stats.failed += batch.length;
+          options.onError?.(error, batch);
+          return;
+        }
+        await sleep(retryBaseDelayMs * 2 ** attempt);
+      }
+    }
+  };
+
+  const drain = async () => {
+    while (buffer.length > 0) {
+      await sendWithRetry(takeBatch());
+    }
+  };
+
+  // Batches are sent one after another so ordering is preserved
+  const flush = (): Promise<void> => {
+    clearTimer();
+    inflight = inflight.then(drain);
+    return inflight;
+  };
+
+  return {
+    write: (event) => {
+      if (closed || buffer.length >= maxBufferSize) {
+        stats.dropped++;
+        return;
+      }
+
+      const bytes = encoder.encode(JSON.stringify(event)).byteLength;
+      buffer.push({ event, bytes });
+      bufferedBytes += bytes;
+
+      if (buffer.length >= maxBatchSize || bufferedBytes >= maxBatchBytes) {
+        void flush();
+      } else {
+        startTimer();
+      }
+    },
+    flush,
+    close: async () => {
+      closed = true;
+      await flush();
+    },
+    get stats() {
+      return { ...stats, buffered: buffer.length };
+    },
+  };
+}
@@ -1,3 +1,15 @@
+import type { MiddlewareHandler } from "hono";
+import type { GetConnInfo } from "hono/conninfo";
+import type { RedactOptions } from "./redact";
+import type { ConfigProvider } from "./config";
+import type { DebugOptions } from "./debug";
+import type { NameMatcher } from "./headers";
+import type { BodyCaptureOptions } from "./body";
+import type { TrustProxy } from "./ip";
+import type { ClientInfo, UserAgentParserOptions } from "./user-agent";
+import type { WideLoggerPlugin } from "./plugins";
+import type { SchemaError, SchemaMode, StandardSchemaV1 } from "./schema";
+
 /**
  * Logger interface - any object with standard logging methods
  */
@@ -9,6 +21,19 @@ export interface Logger {
   error(message: string, ...args: any[]): void;
 }
 
+/**
+ * Log level of an emitted event
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Logger that takes wide events as structured objects instead of JSON strings
+ * (see the pino, winston and pretty adapters)
+ */
+export interface EventLogger extends Logger {
+  event(event: WideEvent, level: LogLevel): void;
+}
+
 /**
  * Storage interface - key-value store for persisting events
  */
@@ -18,10 +43,104 @@ export interface Storage {
   delete(key: string): Promise<void> | void;
 }
 
+/**
+ * Transport interface - ships events to a sink (HTTP collector, ClickHouse, etc.)
+ * Implementations are expected to buffer; `write` must not block.
+ */
+export interface Transport {
+  write(event: WideEvent): void;
+  flush(): Promise<void>;
+  close?(): Promise<void>;
+}
+
+/**
+ * HTTP status class, e.g. '4xx'
+ */
+export type StatusClass = "1xx" | "2xx" | "3xx" | "4xx" | "5xx";
+
+/**
+ * Verdict of the status policy for one event
+ * - keep: always log
+ * - drop: never log
+ * - undefined: no opinion, the rest of the sampling rules decide
+ */
+export type StatusDecision = "keep" | "drop" | undefined;
+
+/**
+ * Which response statuses are always (or never) logged
+ *
+ * @example
+ * ```typescript
+ * // Keep all 5xx plus auth failures and rate limits, never log 404s
+ * { alwaysLog: ['5xx'], overrides: { 401: 'keep', 429: 'keep', 404: 'drop' } }
+ * ```
+ */
+export interface StatusPolicy {
+  /**
+   * Status classes that are always logged
+   * @default derived from `errorCode`
+   */
+  alwaysLog?: StatusClass[];
+
+  /**
+   * Per-status verdicts; these win over `alwaysLog` and every other rule
+   */
+  overrides?: Record<number, "keep" | "drop">;
+}
+
+/**
+ * Extra input handed to sampling functions
+ */
+export interface SamplingContext {
+  /**
+   * The configured status policy's verdict for this event, so custom
+   * samplers can honor it without re-implementing the rules
+   */
+  status: StatusDecision;
+}
+
+/**
+ * What the sample-rate roll is based on
+ * - random: Math.random, independently in every service
+ * - trace_id / request_id: a hash of the ID, so every service in a call
+ *   chain keeps or drops the same request
+ */
+export type SampleBy = "random" | "trace_id" | "request_id";
+
+/**
+ * A sampling verdict with the bookkeeping recorded on the event
+ */
+export interface SampleDecision {
+  keep: boolean;
+
+  /**
+   * Which rule decided, e.g. 'error' or 'route:/health'
+   */
+  reason: string;
+
+  /**
+   * Probability the event had of being kept; downstream counts re-weight by 1/rate
+   */
+  rate: number;
+}
+
+/**
+ * Composable sampling rule - returns undefined when it has no opinion
+ */
+export type SamplingRule<TContext extends ContextSchema = {}> = (
+  event: WideEvent<TContext>,
+  context: SamplingContext,
+) => SampleDecision | undefined;
+
 /**
  * Sampling function - determines if an event should be logged
+ * Return a SampleDecision (any SamplingRule works) to record
+ * `sample_reason` / `sample_rate`; undefined drops the event.
  */
-export type SamplingFn = (event: WideEvent) => boolean;
+export type SamplingFn<TContext extends ContextSchema = {}> = (
+  event: WideEvent<TContext>,
+  context: SamplingContext,
+) => boolean | SampleDecision | undefined;
 
 /**
  * Error details within a wide event
@@ -32,25 +151,111 @@ export interface ErrorDetails {
   message: string;
   retriable?: boolean;
   stack?: string;
+  status?: number; // HTTP status of a Hono HTTPException
+  cause?: ErrorDetails; // Serialized error.cause chain
+  aggregate_errors?: ErrorDetails[]; // Children of an AggregateError
+}
+
+/**
+ * Outcome of a timed sub-operation
+ */
+export type SpanStatus = "ok" | "error";
+
+/**
+ * A named, timed sub-operation within a request (DB call, upstream fetch...)
+ */
+export interface SpanRecord {
+  name: string;
+  start_offset_ms: number; // Start, relative to the request start
+  duration_ms: number;
+  status: SpanStatus;
+  attributes?: Record<string, any>;
+}
+
+/**
+ * Captured request details
+ */
+export interface RequestDetails {
+  headers?: Record<string, string>;
+  cookies?: Record<string, string>;
+  body?: unknown; // Parsed JSON/form, or text
+  body_truncated?: boolean; // Body was cut at maxBytes
+}
+
+/**
+ * Captured response details
+ */
+export interface ResponseDetails {
+  headers?: Record<string, string>;
+  body?: unknown;
+  body_truncated?: boolean;
+}
+
+/**
+ * In-request log line attached to the event
+ */
+export interface LogRecord {
+  timestamp: string;
+  level: LogLevel;
+  message: string;
+  attrs?: Record<string, any>;
+}
+
+/**
+ * Aggregate of all spans sharing a name prefix (`db.query` -> `db`)
+ */
+export interface SpanRollup {
+  count: number;
+  total_ms: number;
+  error_count: number;
+}
+
+/**
+ * Handle for an in-progress span
+ */
+export interface Span {
+  /**
+   * Attach attributes (e.g. table, rows, cache_hit)
+   */
+  setAttributes(attributes: Record<string, any>): void;
+
+  /**
+   * Finish the span; later calls are ignored
+   * @param status - defaults to 'ok'
+   */
+  end(status?: SpanStatus): void;
 }
 
 /**
  * Wide Event structure - comprehensive log event with high cardinality and dimensionality
  */
-export interface WideEvent {
+export interface BaseWideEvent {
   // HTTP Basics (auto-captured)
   request_id: string;
   timestamp: string;
+  trace_id?: string; // W3C trace ID, inherited from traceparent or generated
+  span_id?: string; // Span ID for this hop
+  parent_span_id?: string; // Caller's span ID from traceparent
+  trace_flags?: string; // W3C trace flags, e.g. "01" (sampled)
   method: string;
   path: string;
+  route?: string; // Matched route template, e.g. /users/:id
+  params?: Record<string, string>; // Path params extracted by the route
   query_params?: Record<string, string>;
   status_code?: number;
   duration_ms?: number;
   client_ip?: string;
   user_agent?: string;
+  client?: ClientInfo; // Parsed user agent, with parseUserAgent
   content_type?: string;
   request_size_bytes?: number;
   response_size_bytes?: number;
+  stream_duration_ms?: number; // Time spent streaming the response body
+  level?: LogLevel; // From the outcome (5xx/error, slow) unless set explicitly
+
+  // Captured headers, cookies and bodies (captureRequestHeaders etc.)
+  request?: RequestDetails;
+  response?: ResponseDetails;
 
   // Categorized Context (user-added)
   user?: Record<string, any>; // User context: id, tier, etc.
@@ -58,38 +263,136 @@ export interface WideEvent {
   infra?: Record<string, any>; // Infrastructure: k8s, region, etc.
   service?: Record<string, any>; // Service metadata: version, git_sha
 
+  // Timed sub-operations
+  spans?: SpanRecord[];
+  span_rollups?: Record<string, SpanRollup>; // Keyed by name prefix, e.g. db
+  spans_dropped?: number; // Spans beyond maxSpans (still rolled up)
+
+  // Breadcrumbs, in order
+  logs?: LogRecord[];
+  logs_dropped?: number; // Lines beyond maxLogs / maxLogBytes
+
   // Error Details
-  error?: ErrorDetails;
+  error?: ErrorDetails; // Primary error - the one that failed the request, else the first
+  errors?: ErrorDetails[]; // Every error recorded, in order
+
+  // Sampling bookkeeping, set when the sampler returns a SampleDecision
+  sample_reason?: string;
+  sample_rate?: number;
+
+  // Validation failures (schemaMode 'annotate' / 'coerce')
+  _schema_errors?: SchemaError[];
 }
 
+type BuiltinCategory = "user" | "business" | "infra" | "service";
+
+/**
+ * Custom context categories - category name to payload shape
+ *
+ * @example
+ * ```typescript
+ * type AppContext = {
+ *   feature_flags: { new_checkout: boolean };
+ *   payment: { provider: 'stripe' | 'adyen'; amount_cents: number };
+ * };
+ * ```
+ */
+export type ContextSchema = Record<string, Record<string, any>>;
+
+/**
+ * Categories accepted by addContext: the built-ins plus custom ones
+ * Custom names that clash with auto-captured fields (path, error...) are ignored.
+ */
+export type ContextCategories<TContext extends ContextSchema = {}> = Pick<
+  Required<BaseWideEvent>,
+  BuiltinCategory
+> &
+  Omit<TContext, Exclude<keyof BaseWideEvent, BuiltinCategory>>;
+
+/**
+ * Wide Event, extended with custom context categories
+ */
+export type WideEvent<TContext extends ContextSchema = {}> = BaseWideEvent &
+  Partial<ContextCategories<TContext>>;
+
 /**
  * Context API exposed to handlers via c.get('wide-logger')
  */
-export interface WideLoggerContext {
+export interface WideLoggerContext<TContext extends ContextSchema = {}> {
   /**
    * Add categorized context to the event
-   * @param category - 'user' | 'business' | 'infra' | 'service'
+   * @param category - 'user' | 'business' | 'infra' | 'service', or a custom category
    * @param data - Key-value pairs to add
    */
-  addContext(category: "user" | "business" | "infra" | "service", data: Record<string, any>): void;
+  addContext<K extends keyof ContextCategories<TContext>>(
+    category: K,
+    data: Partial<ContextCategories<TContext>[K]>,
+  ): void;
 
   /**
    * Add error details to the event
-   * @param error - Error object
+   * Errors accumulate in `errors`; the first one is also the primary `error`
+   * unless a later uncaught error fails the request.
+   * @param error - Error object (cause chains and AggregateErrors are captured)
    * @param metadata - Additional error metadata
    */
   addError(error: Error, metadata?: Record<string, any>): void;
 
+  /**
+   * Attach a breadcrumb ("retrying payment", "cache miss") to the event
+   * instead of writing a separate log line; capped by maxLogs / maxLogBytes
+   */
+  log(level: LogLevel, message: string, attrs?: Record<string, any>): void;
+
+  /**
+   * Override the level the event is logged at
+   * By default it is derived from the outcome: error for 5xx responses and
+   * recorded errors, warn for slow requests, info otherwise.
+   */
+  setLevel(level: LogLevel): void;
+
   /**
    * Get current event state (for inspection)
    */
-  getEvent(): Partial<WideEvent>;
+  getEvent(): Partial<WideEvent<TContext>>;
+
+  /**
+   * Build headers for outgoing requests so downstream services join this trace
+   * Includes traceparent (with this hop's span as parent), tracestate when
+   * received, and the request ID header.
+   *
+   * @example
+   * ```typescript
+   * await fetch(url, { headers: logger.getTraceHeaders() });
+   * ```
+   */
+  getTraceHeaders(): Record<string, string>;
+
+  /**
+   * Start a named span; call `end()` when the operation finishes
+   * Names are rolled up by prefix, so `db.query` counts towards `db`.
+   */
+  startSpan(name: string, attributes?: Record<string, any>): Span;
+
+  /**
+   * Time an operation as a span; a throw marks it as an error and is rethrown
+   *
+   * @example
+   * ```typescript
+   * const user = await logger.time('db.query', () => db.users.find(id));
+   * ```
+   */
+  time<T>(
+    name: string,
+    fn: (span: Span) => Promise<T> | T,
+    attributes?: Record<string, any>,
+  ): Promise<T>;
 }
 
 /**
  * Configuration options for wideLogger middleware
  */
-export interface WideLoggerOptions {
+export interface WideLoggerOptions<TContext extends ContextSchema = {}> {
   /**
    * Logger instance for outputting events
    * @default console
@@ -102,11 +405,35 @@ export interface WideLoggerOptions {
    */
   storage?: Storage;
 
+  /**
+   * Transport for batched event shipping
+   * @default undefined
+   */
+  transport?: Transport;
+
+  /**
+   * Redaction rules applied to every event before it is logged or stored
+   * @default undefined
+   */
+  redact?: RedactOptions;
+
+  /**
+   * Schema (Zod, Valibot... any Standard Schema) each emitted event must match
+   * @default undefined
+   */
+  schema?: StandardSchemaV1;
+
+  /**
+   * How events failing `schema` are handled
+   * @default 'annotate'
+   */
+  schemaMode?: SchemaMode;
+
   /**
    * Custom sampling function
    * @default defaultSampling
    */
-  sampling?: SamplingFn;
+  sampling?: SamplingFn<TContext>;
 
   /**
    * Threshold in ms for considering a request "slow"
@@ -114,12 +441,126 @@ export interface WideLoggerOptions {
    */
   slowThresholdMs?: number;
 
+  /**
+   * Lowest level that is emitted; quieter events are dropped after sampling
+   * Debug-token requests are always emitted.
+   * @default "debug"
+   */
+  minLevel?: LogLevel;
+
   /**
    * Sample rate for non-error, non-slow requests (0-1)
    * @default 0.05
    */
   sampleRate?: number;
 
+  /**
+   * Base the sample-rate roll on a hashed ID instead of Math.random
+   * @default 'random'
+   */
+  sampleBy?: SampleBy;
+
+  /**
+   * Follow the sampled flag of an incoming traceparent
+   * Errors, slow requests and other always-keep rules still win.
+   * @default false
+   */
+  honorUpstream?: boolean;
+
+  /**
+   * Request headers to capture into `request.headers`
+   * `authorization`, `proxy-authorization`, `cookie` and `set-cookie` are
+   * never captured.
+   * @default []
+   */
+  captureRequestHeaders?: NameMatcher[];
+
+  /**
+   * Response headers to capture into `response.headers`
+   * @default []
+   */
+  captureResponseHeaders?: NameMatcher[];
+
+  /**
+   * Cookies to capture by name into `request.cookies`
+   * @default []
+   */
+  captureCookies?: NameMatcher[];
+
+  /**
+   * Capture request/response bodies into `request.body` / `response.body`
+   * Only JSON, form and text bodies, only for events that survive sampling.
+   * @default false
+   */
+  captureBody?: boolean | BodyCaptureOptions;
+
+  /**
+   * Proxies trusted to report the client address in `client_ip`: all
+   * (`true`), none (`false`), a hop count, or addresses / CIDR ranges.
+   * `true` takes the first forwarded address, which clients can spoof.
+   * @default true
+   */
+  trustProxy?: TrustProxy;
+
+  /**
+   * Take `cf-connecting-ip` as `client_ip` whenever it is present
+   * Only safe when every request reaches the app through Cloudflare.
+   * @default false
+   */
+  trustCloudflare?: boolean;
+
+  /**
+   * Connection info for the runtime, e.g. `getConnInfo` from `hono/bun`
+   * Used for the peer address when checking proxies and when no proxy
+   * headers are trusted.
+   * @default built-in detection for Node, Bun and Deno
+   */
+  getConnInfo?: GetConnInfo;
+
+  /**
+   * Truncate `client_ip` - IPv4 to /24, IPv6 to /48
+   * @default false
+   */
+  anonymizeIp?: boolean;
+
+  /**
+   * Parse `user_agent` into `client` - browser, OS, device type and bot
+   * classification. Parses are cached per distinct user agent.
+   * @default false
+   */
+  parseUserAgent?: boolean | UserAgentParserOptions;
+
+  /**
+   * Enrichment plugins, run in order at each lifecycle hook
+   * @default []
+   */
+  plugins?: WideLoggerPlugin<TContext>[];
+
+  /**
+   * Time each async plugin hook may take before it stops being awaited
+   * @default 100
+   */
+  pluginTimeoutMs?: number;
+
+  /**
+   * Time to wait for a streamed response body to be sent before emitting
+   * its event anyway, without a size; `flush()` emits such events at once
+   * @default 60_000
+   */
+  streamTimeoutMs?: number;
+
+  /**
+   * Runtime source for sampling settings, so they change without a redeploy
+   * @default undefined
+   */
+  config?: ConfigProvider;
+
+  /**
+   * Force-log requests carrying a signed debug token
+   * @default undefined
+   */
+  debug?: DebugOptions;
+
   /**
    * Function to generate request IDs
    * @default crypto.randomUUID
@@ -133,10 +574,97 @@ export interface WideLoggerOptions {
   requestIdHeader?: string;
 
   /**
-   * Error code to for sampling error logs
-   * @default 400
+   * Deployment environment stamped into `infra.environment`
+   * @default NODE_ENV / ENVIRONMENT / APP_ENV from the runtime's env
+   */
+  environment?: string;
+
+  /**
+   * Include stack traces in error details
+   * @default true when the environment is 'development'
+   */
+  includeStack?: boolean;
+
+  /**
+   * Maximum spans recorded individually per event
+   * @default 100
+   */
+  maxSpans?: number;
+
+  /**
+   * Maximum breadcrumbs recorded per event
+   * @default 50
+   */
+  maxLogs?: number;
+
+  /**
+   * Maximum total size of an event's breadcrumbs, JSON-encoded
+   * @default 16_384
+   */
+  maxLogBytes?: number;
+
+  /**
+   * Lowest status that is always logged: 400 keeps every 4xx and 5xx,
+   * 500 only 5xx. Shorthand for `statusPolicy.alwaysLog`.
+   * @default 500
+   */
+  errorCode?: 400 | 500;
+
+  /**
+   * Status classes to always log and per-status overrides
+   * @default { alwaysLog: ['5xx'] }
+   */
+  statusPolicy?: StatusPolicy;
+}
+
+/**
+ * Hono Env carrying a typed wide-logger variable
+ *
+ * @example
+ * ```typescript
+ * const app = new Hono<WideLoggerEnv<AppContext>>();
+ * app.use('*', wideLogger<AppContext>());
+ * ```
+ */
+export type WideLoggerEnv<TContext extends ContextSchema = {}> = {
+  Variables: { "wide-logger": WideLoggerContext<TContext> };
+};
+
+/**
+ * Middleware returned by wideLogger, with hooks for graceful shutdown
+ */
+export interface WideLoggerMiddleware<
+  TContext extends ContextSchema = {},
+> extends MiddlewareHandler<WideLoggerEnv<TContext>> {
+  /**
+   * Wait until all queued event deliveries have settled
+   */
+  flush(): Promise<void>;
+
+  /**
+   * Stop accepting new deliveries and drain the queue
+   */
+  shutdown(): Promise<void>;
+
+  /**
+   * Load the `config` provider now instead of waiting for the next poll
+   */
+  reloadConfig(): Promise<void>;
+
+  /**
+   * Emission counters
+   */
+  readonly stats: WideLoggerStats;
+}
+
+/**
+ * Counters exposed on the middleware
+ */
+export interface WideLoggerStats {
+  /**
+   * Events that failed schema validation
    */
-  errorCode?:400|500
+  schemaFailures: number;
 }
 
 /**
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from "vitest";
+import { pinoAdapter, prettyLogger, winstonAdapter } from "../src/adapters";
+import type { WideEvent } from "../src/types";
+
+const event: WideEvent = {
+  request_id: "req_1",
+  timestamp: "2024-01-15T10:23:45.612Z",
+  method: "GET",
+  path: "/users/123",
+  route: "/users/:id",
+  status_code: 200,
+  duration_ms: 12,
+};
+
+const mockBackend = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+});
+
+describe("pinoAdapter", () => {
+  it("should pass events as the merging object at their level", () => {
+    const pino = mockBackend();
+    const logger = pinoAdapter(pino);
+
+    logger.event(event, "info");
+    logger.event({ ...event, status_code: 500 }, "error");
+
+    expect(pino.info).toHaveBeenCalledWith(event, "GET /users/:id 200");
+    expect(pino.error).toHaveBeenCalledWith(
+      expect.objectContaining({ status_code: 500 }),
+      "GET /users/:id 500",
+    );
+  });
+
+  it("should leave the level field to pino", () => {
+    const pino = mockBackend();
+
+    pinoAdapter(pino).event({ ...event, level: "warn" }, "warn");
+
+    expect(pino.warn.mock.calls[0][0]).not.toHaveProperty("level");
+  });
+
+  it("should put errors under err for pino's serializer", () => {
+    const pino = mockBackend();
+    const error = new Error("boom");
+
+    pinoAdapter(pino).error("[wide-logger] event delivery failed", error);
+    pinoAdapter(pino).warn("plain message");
+
+    expect(pino.error).toHaveBeenCalledWith(
+      { err: error },
+      "[wide-logger] event delivery failed",
+    );
+    expect(pino.warn).toHaveBeenCalledWith("plain message");
+  });
+});
+
+describe("winstonAdapter", () => {
+  it("should pass events as metadata at their level", () => {
+    const winston = mockBackend();
+    const logger = winstonAdapter(winston);
+
+    logger.event(event, "warn");
+    logger.error("failed", { attempt: 1 });
+
+    expect(winston.warn).toHaveBeenCalledWith("GET /users/:id 200", event);
+    expect(winston.error).toHaveBeenCalledWith("failed", { attempt: 1 });
+  });
+});
+
+describe("prettyLogger", () => {
+  it("should print one readable line per event", () => {
+    const write = vi.fn();
+
+    prettyLogger({ colors: false, write }).event(event, "info");
+
+    expect(write).toHaveBeenCalledWith(
+      "10:23:45 INFO  GET /users/:id 200 12ms req_1",
+    );
+  });
+
+  it("should print the error message under failed requests", () => {
+    const write = vi.fn();
+
+    prettyLogger({ colors: false, write }).event(
+      {
+        ...event,
+        status_code: 500,
+        error: { type: "PaymentError", message: "card declined" },
+      },
+      "error",
+    );
+
+    expect(write).toHaveBeenCalledTimes(2);
+    expect(write).toHaveBeenLastCalledWith("  PaymentError: card declined");
+  });
+
+  it("should colorize status by class", () => {
+    const write = vi.fn();
+    const logger = prettyLogger({ write });
+
+    logger.event(event, "info");
+    logger.event({ ...event, status_code: 404 }, "info");
+
+    expect(write.mock.calls[0][0]).toContain("\x1b[32m200\x1b[0m");
+    expect(write.mock.calls[1][0]).toContain("\x1b[33m404\x1b[0m");
+  });
+
+  it("should highlight slow durations", () => {
+    const write = vi.fn();
+
+    prettyLogger({ write }).event({ ...event, duration_ms: 3000 }, "warn");
+
+    expect(write.mock.calls[0][0]).toContain("\x1b[33m3000ms\x1b[0m");
+  });
+});
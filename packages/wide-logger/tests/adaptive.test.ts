@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, afterEach, beforeEach } from "vitest";
+import { createAdaptiveSampler } from "../src/adaptive";
+import type { WideEvent } from "../src/types";
+
+const event = (route: string, status_code = 200): WideEvent => ({
+  request_id: "test",
+  timestamp: "2024-01-01",
+  method: "GET",
+  path: route,
+  route,
+  status_code,
+});
+
+const context = { status: undefined };
+
+describe("createAdaptiveSampler", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should keep everything while under budget", () => {
+    const sampler = createAdaptiveSampler({ targetEventsPerSecond: 10 });
+
+    for (let i = 0; i < 50; i++) {
+      expect(sampler(event("/rare"), context)).toEqual({
+        keep: true,
+        reason: "adaptive:/rare 2xx",
+        rate: 1,
+      });
+    }
+  });
+
+  it("should lower the rate of hot keys to fit the budget", () => {
+    const sampler = createAdaptiveSampler({
+      targetEventsPerSecond: 1,
+      windowMs: 1000,
+    });
+
+    let kept = 0;
+    for (let i = 0; i < 1000; i++) {
+      if (sampler(event("/health"), context)?.keep) kept++;
+    }
+
+    expect(sampler.rates()["/health 2xx"]).toBeLessThan(0.01);
+    expect(kept).toBeLessThan(20);
+  });
+
+  it("should always keep the first events of each key per window", () => {
+    const sampler = createAdaptiveSampler({
+      targetEventsPerSecond: 0,
+      windowMs: 1000,
+      minPerKey: 2,
+    });
+
+    const decisions = () =>
+      Array.from({ length: 5 }, () => sampler(event("/health"), context));
+
+    expect(decisions().map((decision) => decision?.keep)).toEqual([
+      true,
+      true,
+      false,
+      false,
+      false,
+    ]);
+
+    vi.advanceTimersByTime(1000);
+    expect(decisions().filter((decision) => decision?.keep)).toHaveLength(2);
+  });
+
+  it("should share the budget across keys by route and status class", () => {
+    const sampler = createAdaptiveSampler({
+      targetEventsPerSecond: 10,
+      windowMs: 1000,
+    });
+
+    sampler(event("/health", 500), context);
+    sampler(event("/checkout"), context);
+    for (let i = 0; i < 100; i++) sampler(event("/health"), context);
+
+    const rates = sampler.rates();
+    expect(Object.keys(rates).sort()).toEqual([
+      "/checkout 2xx",
+      "/health 2xx",
+      "/health 5xx",
+    ]);
+    expect(rates["/checkout 2xx"]).toBe(1);
+    // A third of the budget for a hundred events
+    expect(rates["/health 2xx"]).toBeCloseTo(10 / 3 / 100, 5);
+  });
+
+  it("should recover once traffic drops", () => {
+    const sampler = createAdaptiveSampler({
+      targetEventsPerSecond: 10,
+      windowMs: 1000,
+    });
+
+    for (let i = 0; i < 1000; i++) sampler(event("/burst"), context);
+    expect(sampler.rates()["/burst 2xx"]).toBeLessThan(0.1);
+
+    // Quiet for two windows: the burst has slid out
+    vi.advanceTimersByTime(2000);
+    expect(sampler(event("/burst"), context)?.rate).toBe(1);
+  });
+
+  it("should weight the previous window as it slides out", () => {
+    const sampler = createAdaptiveSampler({
+      targetEventsPerSecond: 10,
+      windowMs: 1000,
+      minPerKey: 0,
+    });
+
+    for (let i = 0; i < 100; i++) sampler(event("/api"), context);
+    vi.advanceTimersByTime(1500);
+    sampler(event("/api"), context);
+
+    // Half of the previous 100 still counts
+    expect(sampler.rates()["/api 2xx"]).toBeCloseTo(10 / 51, 5);
+  });
+
+  it("should bucket keys beyond maxKeys together", () => {
+    const sampler = createAdaptiveSampler({
+      targetEventsPerSecond: 10,
+      maxKeys: 2,
+    });
+
+    sampler(event("/a"), context);
+    sampler(event("/b"), context);
+
+    expect(sampler(event("/c"), context)?.reason).toBe("adaptive:__other__");
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { isCapturable, matchesRoute, readBody } from "../src/body";
+
+const streamOf = (...chunks: string[]) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(new TextEncoder().encode(chunk));
+      }
+      controller.close();
+    },
+  });
+
+describe("matchesRoute", () => {
+  it("should match everything without routes", () => {
+    expect(matchesRoute("/anything", undefined)).toBe(true);
+  });
+
+  it("should match exact paths, prefixes and patterns", () => {
+    const routes = ["/payments", "/webhooks/*", /^\/v\d+\/orders$/];
+
+    expect(matchesRoute("/payments", routes)).toBe(true);
+    expect(matchesRoute("/payments/1", routes)).toBe(false);
+    expect(matchesRoute("/webhooks/stripe", routes)).toBe(true);
+    expect(matchesRoute("/v2/orders", routes)).toBe(true);
+    expect(matchesRoute("/users", routes)).toBe(false);
+  });
+
+  it("should match consistently with a global pattern", () => {
+    const routes = [/^\/webhooks\//g];
+
+    expect(matchesRoute("/webhooks/stripe", routes)).toBe(true);
+    expect(matchesRoute("/webhooks/stripe", routes)).toBe(true);
+  });
+});
+
+describe("isCapturable", () => {
+  it("should accept JSON, forms and text", () => {
+    expect(isCapturable("application/json; charset=utf-8")).toBe(true);
+    expect(isCapturable("application/vnd.api+json")).toBe(true);
+    expect(isCapturable("application/x-www-form-urlencoded")).toBe(true);
+    expect(isCapturable("text/plain")).toBe(true);
+    expect(isCapturable("application/xml")).toBe(true);
+  });
+
+  it("should skip binary, multipart and unknown bodies", () => {
+    expect(isCapturable("image/png")).toBe(false);
+    expect(isCapturable("multipart/form-data; boundary=x")).toBe(false);
+    expect(isCapturable("application/octet-stream")).toBe(false);
+    expect(isCapturable("text/event-stream")).toBe(false);
+    expect(isCapturable(undefined)).toBe(false);
+  });
+});
+
+describe("readBody", () => {
+  it("should parse JSON", async () => {
+    expect(
+      await readBody(streamOf('{"amount":', "100}"), "application/json", 1024),
+    ).toEqual({ body: { amount: 100 }, truncated: false });
+  });
+
+  it("should parse forms", async () => {
+    expect(
+      await readBody(
+        streamOf("event=paid&id=42"),
+        "application/x-www-form-urlencoded",
+        1024,
+      ),
+    ).toEqual({ body: { event: "paid", id: "42" }, truncated: false });
+  });
+
+  it("should keep text and unparseable JSON as text", async () => {
+    expect(await readBody(streamOf("hello"), "text/plain", 1024)).toEqual({
+      body: "hello",
+      truncated: false,
+    });
+    expect(
+      await readBody(streamOf("{not json"), "application/json", 1024),
+    ).toEqual({ body: "{not json", truncated: false });
+  });
+
+  it("should truncate at maxBytes and keep the cut text", async () => {
+    const result = await readBody(
+      streamOf('{"items":[', "1,2,3,4,5", "]}"),
+      "application/json",
+      12,
+    );
+
+    expect(result).toEqual({ body: '{"items":[1,', truncated: true });
+  });
+
+  it("should not flag bodies exactly at the limit", async () => {
+    expect(await readBody(streamOf("12345"), "text/plain", 5)).toEqual({
+      body: "12345",
+      truncated: false,
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { createBreadcrumbRecorder } from "../src/breadcrumbs";
+import type { WideEvent } from "../src/types";
+
+describe("createBreadcrumbRecorder", () => {
+  it("should append timestamped lines in order", () => {
+    const event: Partial<WideEvent> = {};
+    const { log } = createBreadcrumbRecorder(event, 50, 16_384);
+
+    log("info", "cache miss", { key: "user:1" });
+    log("warn", "retrying payment");
+
+    expect(event.logs).toHaveLength(2);
+    const [first, second] = event.logs!;
+    expect(first).toEqual({
+      timestamp: expect.any(String),
+      level: "info",
+      message: "cache miss",
+      attrs: { key: "user:1" },
+    });
+    expect(new Date(first.timestamp).toISOString()).toBe(first.timestamp);
+    expect(second).not.toHaveProperty("attrs");
+    expect(second.message).toBe("retrying payment");
+  });
+
+  it("should copy attributes", () => {
+    const event: Partial<WideEvent> = {};
+    const attrs = { attempt: 1 };
+
+    createBreadcrumbRecorder(event, 50, 16_384).log("info", "retry", attrs);
+    attrs.attempt = 2;
+
+    expect(event.logs![0].attrs).toEqual({ attempt: 1 });
+  });
+
+  it("should cap the number of lines and count the rest", () => {
+    const event: Partial<WideEvent> = {};
+    const { log } = createBreadcrumbRecorder(event, 3, 16_384);
+
+    for (let i = 0; i < 10; i++) log("debug", `iteration ${i}`);
+
+    expect(event.logs!.map((line) => line.message)).toEqual([
+      "iteration 0",
+      "iteration 1",
+      "iteration 2",
+    ]);
+    expect(event.logs_dropped).toBe(7);
+  });
+
+  it("should cap the total size", () => {
+    const event: Partial<WideEvent> = {};
+    const { log } = createBreadcrumbRecorder(event, 50, 400);
+
+    log("info", "x".repeat(100));
+    log("info", "y".repeat(400));
+    log("info", "z".repeat(100));
+
+    expect(event.logs!.map((line) => line.message[0])).toEqual(["x", "z"]);
+    expect(event.logs_dropped).toBe(1);
+  });
+});
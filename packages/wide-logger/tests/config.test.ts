@@ -0,0 +1,113 @@
+import { describe, it, expect, vi } from "vitest";
+import { createConfigStore } from "../src/config";
+import type { DynamicConfig } from "../src/config";
+
+const identity = (config: DynamicConfig) => config;
+
+describe("createConfigStore", () => {
+  it("should start from the base config", () => {
+    const store = createConfigStore(
+      { sampleRate: 0.05 },
+      undefined,
+      identity,
+      vi.fn(),
+    );
+
+    expect(store.current()).toEqual({ sampleRate: 0.05 });
+    expect(store.refresh()).toBeUndefined();
+  });
+
+  it("should layer loaded config over the base", async () => {
+    const store = createConfigStore(
+      { sampleRate: 0.05, slowThresholdMs: 2000 },
+      { load: () => ({ sampleRate: 1 }) },
+      identity,
+      vi.fn(),
+    );
+
+    await store.refresh();
+
+    expect(store.current()).toEqual({ sampleRate: 1, slowThresholdMs: 2000 });
+  });
+
+  it("should replace the previous config wholesale", async () => {
+    const load = vi
+      .fn()
+      .mockResolvedValueOnce({ sampleRate: 1, errorCode: 400 })
+      .mockResolvedValueOnce({ sampleRate: 0.5 });
+    const store = createConfigStore({}, { load }, identity, vi.fn());
+
+    await store.reload();
+    await store.reload();
+
+    expect(store.current()).toEqual({ sampleRate: 0.5 });
+  });
+
+  it("should poll at most every pollIntervalMs", async () => {
+    vi.useFakeTimers();
+    try {
+      const load = vi.fn(() => ({ sampleRate: 1 }));
+      const store = createConfigStore(
+        {},
+        { load, pollIntervalMs: 1000 },
+        identity,
+        vi.fn(),
+      );
+
+      await store.refresh();
+      expect(store.refresh()).toBeUndefined();
+      expect(load).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(1000);
+      await store.refresh();
+      expect(load).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should keep the previous config when a load fails", async () => {
+    const onError = vi.fn();
+    const store = createConfigStore(
+      { sampleRate: 0.05 },
+      {
+        load: () => {
+          throw new Error("KV unavailable");
+        },
+      },
+      identity,
+      onError,
+    );
+
+    await store.reload();
+
+    expect(store.current()).toEqual({ sampleRate: 0.05 });
+    expect(onError).toHaveBeenCalledWith(expect.any(Error));
+  });
+
+  it("should apply pushed updates and unsubscribe on close", () => {
+    let push: (config: DynamicConfig) => void = () => {};
+    const unsubscribe = vi.fn();
+    const store = createConfigStore(
+      {},
+      {
+        subscribe: (update) => {
+          push = update;
+          return unsubscribe;
+        },
+      },
+      (config) => ({ config }),
+      vi.fn(),
+    );
+
+    const before = store.current();
+    push({ sampleRate: 1 });
+
+    expect(store.current().config).toEqual({ sampleRate: 1 });
+    // Snapshots are swapped, never mutated
+    expect(before.config).toEqual({});
+
+    store.close();
+    expect(unsubscribe).toHaveBeenCalled();
+  });
+});
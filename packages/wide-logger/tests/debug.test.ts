@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from "vitest";
+import { createDebugVerifier, signDebugToken } from "../src/debug";
+
+const SECRET = "s3cret";
+
+describe("debug tokens", () => {
+  it("should verify tokens it signed", async () => {
+    const token = await signDebugToken(SECRET, Date.now() + 60_000);
+    const verify = createDebugVerifier(SECRET);
+
+    expect(token).toMatch(/^\d+\.[0-9a-f]{64}$/);
+    expect(await verify(token)).toBe(true);
+  });
+
+  it("should reject expired tokens", async () => {
+    const token = await signDebugToken(SECRET, Date.now() - 1000);
+
+    expect(await createDebugVerifier(SECRET)(token)).toBe(false);
+  });
+
+  it("should reject tokens signed with another secret", async () => {
+    const token = await signDebugToken("other", Date.now() + 60_000);
+
+    expect(await createDebugVerifier(SECRET)(token)).toBe(false);
+  });
+
+  it("should reject tampered expiries", async () => {
+    const token = await signDebugToken(SECRET, Date.now() + 60_000);
+    const [expiry, signature] = token.split(".");
+    const extended = `${Number(expiry) + 86_400}.${signature}`;
+
+    expect(await createDebugVerifier(SECRET)(extended)).toBe(false);
+  });
+
+  it("should reject missing and malformed tokens", async () => {
+    const verify = createDebugVerifier(SECRET);
+
+    expect(await verify(undefined)).toBe(false);
+    expect(await verify("")).toBe(false);
+    expect(await verify("not-a-token")).toBe(false);
+  });
+
+  it("should reject tokens valid for longer than maxTtlMs", async () => {
+    const token = await signDebugToken(SECRET, Date.now() + 2 * 3_600_000);
+
+    expect(await createDebugVerifier(SECRET)(token)).toBe(true);
+    expect(
+      await createDebugVerifier(SECRET, { maxTtlMs: 3_600_000 })(token),
+    ).toBe(false);
+    expect(
+      await createDebugVerifier(SECRET)(
+        await signDebugToken(SECRET, Date.parse("3000-01-01")),
+      ),
+    ).toBe(false);
+  });
+
+  it("should throw on an empty secret", () => {
+    expect(() => createDebugVerifier("")).toThrow("must not be empty");
+  });
+
+  it("should report Web Crypto failures and retry the key", async () => {
+    const token = await signDebugToken(SECRET, Date.now() + 60_000);
+    const onError = vi.fn();
+    const verify = createDebugVerifier(SECRET, { onError });
+    const importKey = vi
+      .spyOn(crypto.subtle, "importKey")
+      .mockRejectedValueOnce(new Error("DataError"));
+
+    try {
+      expect(await verify(token)).toBe(false);
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ message: "DataError" }),
+      );
+      expect(await verify(token)).toBe(true);
+    } finally {
+      importKey.mockRestore();
+    }
+  });
+});
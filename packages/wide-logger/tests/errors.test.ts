@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { HTTPException } from "hono/http-exception";
+import { isClientError, serializeError, statusForError } from "../src/errors";
+
+describe("serializeError", () => {
+  it("should serialize basic error fields", () => {
+    const error = Object.assign(new TypeError("bad input"), {
+      code: "E_INPUT",
+      retriable: true,
+    });
+
+    expect(serializeError(error, false)).toEqual({
+      type: "TypeError",
+      code: "E_INPUT",
+      message: "bad input",
+      retriable: true,
+      stack: undefined,
+    });
+  });
+
+  it("should include the stack only when asked", () => {
+    const error = new Error("boom");
+    expect(serializeError(error, true).stack).toBe(error.stack);
+    expect(serializeError(error, false).stack).toBeUndefined();
+  });
+
+  it("should serialize cause chains recursively", () => {
+    const error = new Error("outer", {
+      cause: new Error("middle", { cause: "root string" }),
+    });
+
+    const details = serializeError(error, false);
+    expect(details.cause?.message).toBe("middle");
+    expect(details.cause?.cause).toMatchObject({
+      type: "NonError",
+      message: "root string",
+    });
+  });
+
+  it("should stop following cyclic causes", () => {
+    const error = new Error("loop");
+    (error as any).cause = error;
+
+    let depth = 0;
+    let details = serializeError(error, false);
+    while (details.cause) {
+      details = details.cause;
+      depth++;
+    }
+    expect(depth).toBe(5);
+  });
+
+  it("should capture AggregateError children", () => {
+    const error = new AggregateError(
+      [new Error("first"), new RangeError("second")],
+      "all failed",
+    );
+
+    const details = serializeError(error, false);
+    expect(details.type).toBe("AggregateError");
+    expect(details.aggregate_errors?.map((e) => e.type)).toEqual([
+      "Error",
+      "RangeError",
+    ]);
+  });
+
+  it("should record HTTPException status", () => {
+    const details = serializeError(
+      new HTTPException(401, { message: "Unauthorized" }),
+      false,
+    );
+    expect(details.status).toBe(401);
+    expect(details.message).toBe("Unauthorized");
+  });
+
+  it("should serialize non-Error values", () => {
+    expect(serializeError({ reason: "nope" }, false)).toEqual({
+      type: "NonError",
+      code: "UNKNOWN",
+      message: '{"reason":"nope"}',
+      retriable: false,
+    });
+  });
+});
+
+describe("statusForError", () => {
+  it("should map HTTPException to its status and others to 500", () => {
+    expect(statusForError(new HTTPException(429))).toBe(429);
+    expect(statusForError(new Error("boom"))).toBe(500);
+    expect(statusForError("boom")).toBe(500);
+  });
+});
+
+describe("isClientError", () => {
+  it("should only match 4xx HTTPExceptions", () => {
+    expect(isClientError(new HTTPException(401))).toBe(true);
+    expect(isClientError(new HTTPException(503))).toBe(false);
+    expect(isClientError(new Error("boom"))).toBe(false);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { createHash } from "node:crypto";
+import { sha256 } from "../src/hash";
+
+describe("sha256", () => {
+  const reference = (input: string) =>
+    createHash("sha256").update(input).digest("hex");
+
+  it("should match known digests", () => {
+    expect(sha256("")).toBe(
+      "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855",
+    );
+    expect(sha256("abc")).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+    );
+  });
+
+  it("should match node:crypto across padding boundaries and UTF-8 input", () => {
+    const inputs = [
+      "héllo wörld",
+      "a".repeat(55),
+      "a".repeat(56),
+      "a".repeat(64),
+      "x".repeat(1000),
+    ];
+    for (const input of inputs) {
+      expect(sha256(input)).toBe(reference(input));
+    }
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { captureCookies, createHeaderCapture } from "../src/headers";
+
+describe("createHeaderCapture", () => {
+  const headers = new Headers({
+    "Accept-Language": "en-GB",
+    "X-Feature-Beta": "1",
+    "X-Feature-Dark-Mode": "0",
+    "X-Other": "ignored",
+    Authorization: "Bearer secret",
+    Cookie: "session=abc",
+  });
+
+  it("should capture exact names case-insensitively", () => {
+    const capture = createHeaderCapture(["accept-language", "X-Other"]);
+
+    expect(capture(headers)).toEqual({
+      "accept-language": "en-GB",
+      "x-other": "ignored",
+    });
+  });
+
+  it("should capture names matching a pattern", () => {
+    const capture = createHeaderCapture([/^x-feature-/]);
+
+    expect(capture(headers)).toEqual({
+      "x-feature-beta": "1",
+      "x-feature-dark-mode": "0",
+    });
+  });
+
+  it("should never capture denied headers", () => {
+    const capture = createHeaderCapture(["authorization", "cookie", /.*/]);
+
+    const captured = capture(headers)!;
+    expect(captured).not.toHaveProperty("authorization");
+    expect(captured).not.toHaveProperty("cookie");
+    expect(captured["x-other"]).toBe("ignored");
+  });
+
+  it("should never capture set-cookie", () => {
+    const capture = createHeaderCapture([/.*/]);
+    const response = new Headers({ "Set-Cookie": "session=abc" });
+
+    expect(capture(response)).toBeUndefined();
+  });
+
+  it("should accept an extra denylist", () => {
+    const capture = createHeaderCapture([/^x-/], ["x-other"]);
+
+    expect(capture(headers)).not.toHaveProperty("x-other");
+  });
+
+  it("should return undefined when nothing matched", () => {
+    expect(createHeaderCapture(["x-missing"])(headers)).toBeUndefined();
+  });
+
+  it("should capture the same headers on every call with g/y patterns", () => {
+    const capture = createHeaderCapture([/^x-feature-/g, /^accept-/y]);
+    const expected = {
+      "accept-language": "en-GB",
+      "x-feature-beta": "1",
+      "x-feature-dark-mode": "0",
+    };
+
+    expect(capture(headers)).toEqual(expected);
+    expect(capture(headers)).toEqual(expected);
+  });
+});
+
+describe("captureCookies", () => {
+  it("should pick allowlisted cookies", () => {
+    const cookies = { session: "abc", ab_variant: "b", ab_cohort: "3" };
+
+    expect(captureCookies(cookies, [/^ab_/])).toEqual({
+      ab_variant: "b",
+      ab_cohort: "3",
+    });
+    expect(captureCookies(cookies, ["theme"])).toBeUndefined();
+  });
+
+  it("should match consistently with a global pattern", () => {
+    const cookies = { ab_variant: "b", ab_cohort: "3" };
+    const allow = [/^ab_/g];
+
+    expect(captureCookies(cookies, allow)).toEqual(cookies);
+    expect(captureCookies(cookies, allow)).toEqual(cookies);
+  });
+});
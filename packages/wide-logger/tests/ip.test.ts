@@ -0,0 +1,210 @@
+import { describe, it, expect } from "vitest";
+import { Hono } from "hono";
+import {
+  anonymizeIp,
+  createClientIpResolver,
+  createIpMatcher,
+  normalizeIp,
+  parseForwarded,
+  type ClientIpOptions,
+} from "../src/ip";
+
+// Resolve the client IP for a request, with `peer` as the connected socket
+// the way @hono/node-server exposes it
+async function resolve(
+  options: ClientIpOptions,
+  headers: Record<string, string>,
+  peer?: string,
+) {
+  const resolver = createClientIpResolver(options);
+  const app = new Hono();
+  let ip: string | undefined;
+  app.get("/", (c) => {
+    ip = resolver(c);
+    return c.text("ok");
+  });
+  const env = peer ? { incoming: { socket: { remoteAddress: peer } } } : {};
+  await app.request("/", { headers }, env);
+  return ip;
+}
+
+describe("normalizeIp", () => {
+  it("should strip ports, brackets and quotes", () => {
+    expect(normalizeIp("203.0.113.7:8080")).toBe("203.0.113.7");
+    expect(normalizeIp('"[2001:db8::1]:4711"')).toBe("2001:db8::1");
+    expect(normalizeIp(" 203.0.113.7 ")).toBe("203.0.113.7");
+  });
+
+  it("should unwrap IPv4-mapped IPv6", () => {
+    expect(normalizeIp("::ffff:203.0.113.7")).toBe("203.0.113.7");
+  });
+
+  it("should canonicalize IPv6", () => {
+    expect(normalizeIp("2001:0DB8:0000:0000:0000:0000:0000:0001")).toBe(
+      "2001:db8::1",
+    );
+  });
+
+  it("should reject anything that isn't an IP", () => {
+    expect(normalizeIp("unknown")).toBeUndefined();
+    expect(normalizeIp("_hidden")).toBeUndefined();
+    expect(normalizeIp("256.0.0.1")).toBeUndefined();
+    expect(normalizeIp("1:2:3")).toBeUndefined();
+    expect(normalizeIp(undefined)).toBeUndefined();
+  });
+});
+
+describe("anonymizeIp", () => {
+  it("should zero the last IPv4 octet", () => {
+    expect(anonymizeIp("203.0.113.42")).toBe("203.0.113.0");
+  });
+
+  it("should keep the first 48 bits of IPv6", () => {
+    expect(anonymizeIp("2001:db8:85a3:8d3:1319:8a2e:370:7348")).toBe(
+      "2001:db8:85a3::",
+    );
+  });
+});
+
+describe("createIpMatcher", () => {
+  it("should match IPv4 and IPv6 ranges", () => {
+    const matches = createIpMatcher(["10.0.0.0/8", "2001:db8::/32"]);
+
+    expect(matches("10.20.30.40")).toBe(true);
+    expect(matches("11.0.0.1")).toBe(false);
+    expect(matches("2001:db8:1::1")).toBe(true);
+    expect(matches("2001:db9::1")).toBe(false);
+  });
+
+  it("should match single addresses and non-octet prefixes", () => {
+    const matches = createIpMatcher(["192.0.2.1", "172.16.0.0/12"]);
+
+    expect(matches("192.0.2.1")).toBe(true);
+    expect(matches("192.0.2.2")).toBe(false);
+    expect(matches("172.31.255.255")).toBe(true);
+    expect(matches("172.32.0.0")).toBe(false);
+  });
+
+  it("should match IPv4-mapped peers against IPv4 ranges", () => {
+    expect(createIpMatcher(["127.0.0.1"])("::ffff:127.0.0.1")).toBe(true);
+  });
+
+  it("should throw on invalid ranges", () => {
+    expect(() => createIpMatcher(["10.0.0.0/33"])).toThrow("invalid CIDR");
+    expect(() => createIpMatcher(["proxy.local"])).toThrow("invalid address");
+  });
+});
+
+describe("parseForwarded", () => {
+  it("should read the for= parameter of each element", () => {
+    expect(
+      parseForwarded(
+        'for=192.0.2.60;proto=http;by=203.0.113.43, For="[2001:db8::1]:4711", for=unknown',
+      ),
+    ).toEqual(["192.0.2.60", "2001:db8::1", undefined]);
+  });
+});
+
+describe("createClientIpResolver", () => {
+  const chain = { "x-forwarded-for": "1.1.1.1, 203.0.113.7, 10.0.0.2" };
+
+  it("should take the first forwarded address when trusting every proxy", async () => {
+    expect(await resolve({}, chain)).toBe("1.1.1.1");
+  });
+
+  it("should ignore proxy headers when trusting none", async () => {
+    expect(await resolve({ trustProxy: false }, chain, "10.0.0.1")).toBe(
+      "10.0.0.1",
+    );
+  });
+
+  it("should skip a hop count of proxies", async () => {
+    expect(await resolve({ trustProxy: 1 }, chain)).toBe("10.0.0.2");
+    expect(await resolve({ trustProxy: 2 }, chain)).toBe("203.0.113.7");
+    expect(await resolve({ trustProxy: 10 }, chain)).toBe("1.1.1.1");
+  });
+
+  it("should skip proxies in trusted ranges", async () => {
+    expect(
+      await resolve({ trustProxy: ["10.0.0.0/8"] }, chain, "10.0.0.1"),
+    ).toBe("203.0.113.7");
+  });
+
+  it("should ignore headers from an untrusted peer", async () => {
+    expect(
+      await resolve({ trustProxy: ["10.0.0.0/8"] }, chain, "198.51.100.9"),
+    ).toBe("198.51.100.9");
+  });
+
+  it("should stop at an address that isn't an IP", async () => {
+    expect(
+      await resolve(
+        { trustProxy: 2 },
+        { "x-forwarded-for": "1.1.1.1, garbage, 10.0.0.2" },
+      ),
+    ).toBeUndefined();
+  });
+
+  it("should walk the Forwarded header", async () => {
+    expect(
+      await resolve(
+        { trustProxy: ["10.0.0.0/8"] },
+        { forwarded: "for=198.51.100.1, for=10.0.0.2" },
+        "10.0.0.1",
+      ),
+    ).toBe("198.51.100.1");
+  });
+
+  it("should ignore single-value headers when walking hops", async () => {
+    const spoofed = {
+      "x-forwarded-for": "9.9.9.9, 203.0.113.5",
+      "cf-connecting-ip": "1.2.3.4",
+      "x-real-ip": "5.6.7.8",
+    };
+
+    expect(await resolve({ trustProxy: 1 }, spoofed, "10.0.0.1")).toBe(
+      "203.0.113.5",
+    );
+    expect(
+      await resolve({ trustProxy: ["10.0.0.0/8"] }, spoofed, "10.0.0.1"),
+    ).toBe("203.0.113.5");
+    expect(
+      await resolve({ trustProxy: 1 }, { "x-real-ip": "5.6.7.8" }, "10.0.0.1"),
+    ).toBe("10.0.0.1");
+  });
+
+  it("should read cf-connecting-ip only when trusted", async () => {
+    const headers = { ...chain, "cf-connecting-ip": "198.51.100.4" };
+
+    expect(await resolve({}, headers)).toBe("198.51.100.4");
+    expect(
+      await resolve({ trustProxy: false, trustCloudflare: true }, headers),
+    ).toBe("198.51.100.4");
+    expect(await resolve({ trustProxy: false }, headers, "10.0.0.1")).toBe(
+      "10.0.0.1",
+    );
+  });
+
+  it("should fall back to x-real-ip, then the peer, when trusting every proxy", async () => {
+    expect(await resolve({}, { "x-real-ip": "198.51.100.5" })).toBe(
+      "198.51.100.5",
+    );
+    expect(await resolve({}, {}, "198.51.100.6")).toBe("198.51.100.6");
+  });
+
+  it("should use a custom getConnInfo", async () => {
+    expect(
+      await resolve(
+        {
+          trustProxy: false,
+          getConnInfo: () => ({ remote: { address: "::ffff:192.0.2.9" } }),
+        },
+        {},
+      ),
+    ).toBe("192.0.2.9");
+  });
+
+  it("should anonymize the resolved address", async () => {
+    expect(await resolve({ anonymize: true }, chain)).toBe("1.1.1.0");
+  });
+});
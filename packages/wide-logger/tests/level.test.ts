@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { eventLevel, meetsLevel } from "../src/level";
+
+describe("eventLevel", () => {
+  it("should log 5xx and errors at error", () => {
+    expect(eventLevel({ status_code: 503 }, 2000)).toBe("error");
+    expect(
+      eventLevel(
+        { status_code: 200, error: { type: "Error", message: "x" } },
+        2000,
+      ),
+    ).toBe("error");
+  });
+
+  it("should log slow requests at warn", () => {
+    expect(eventLevel({ status_code: 200, duration_ms: 2500 }, 2000)).toBe(
+      "warn",
+    );
+  });
+
+  it("should log everything else at info", () => {
+    expect(eventLevel({ status_code: 404, duration_ms: 10 }, 2000)).toBe(
+      "info",
+    );
+  });
+});
+
+describe("meetsLevel", () => {
+  it("should pass levels at or above the minimum", () => {
+    expect(meetsLevel("error", "warn")).toBe(true);
+    expect(meetsLevel("warn", "warn")).toBe(true);
+    expect(meetsLevel("info", "warn")).toBe(false);
+    expect(meetsLevel("debug", undefined)).toBe(true);
+  });
+});
@@ -1,7 +1,29 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { Hono } from "hono";
+import { stream } from "hono/streaming";
+import { HTTPException } from "hono/http-exception";
 import { wideLogger } from "../src/middleware";
-import type { Logger, Storage, WideLoggerContext } from "../src/types";
+import type {
+  Logger,
+  Storage,
+  WideLoggerContext,
+  WideLoggerEnv,
+} from "../src/types";
+import type { StandardSchemaV1 } from "../src/schema";
+import { dropIf, first, rateBy } from "../src/sampling";
+import { createAdaptiveSampler } from "../src/adaptive";
+import { signDebugToken } from "../src/debug";
+import { pinoAdapter } from "../src/adapters";
+import type { DynamicConfig } from "../src/config";
+import { createEventStore } from "../src/store";
+
+const createMockLogger = () => ({
+  log: vi.fn(),
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+});
 
 describe("wideLogger middleware", () => {
   describe("basic behavior", () => {
@@ -21,6 +43,9 @@ describe("wideLogger middleware", () => {
       expect(typeof capturedLogger?.addContext).toBe("function");
       expect(typeof capturedLogger?.addError).toBe("function");
       expect(typeof capturedLogger?.getEvent).toBe("function");
+      expect(typeof capturedLogger?.getTraceHeaders).toBe("function");
+      expect(typeof capturedLogger?.startSpan).toBe("function");
+      expect(typeof capturedLogger?.time).toBe("function");
     });
 
     it("should auto-capture request_id", async () => {
@@ -135,6 +160,77 @@ describe("wideLogger middleware", () => {
       expect(event.client_ip).toBe("10.0.0.1");
     });
 
+    it("should resolve client_ip through trusted proxy hops", async () => {
+      const app = new Hono();
+      app.use("*", wideLogger({ trustProxy: 1 }));
+
+      let event: any;
+      app.get("/test", (c) => {
+        event = c.get("wide-logger").getEvent();
+        return c.text("ok");
+      });
+
+      // The first entry is whatever the client sent; only the last was
+      // appended by our proxy
+      await app.request("/test", {
+        headers: { "x-forwarded-for": "6.6.6.6, 203.0.113.7" },
+      });
+      expect(event.client_ip).toBe("203.0.113.7");
+    });
+
+    it("should anonymize client_ip", async () => {
+      const app = new Hono();
+      app.use("*", wideLogger({ anonymizeIp: true }));
+
+      let event: any;
+      app.get("/test", (c) => {
+        event = c.get("wide-logger").getEvent();
+        return c.text("ok");
+      });
+
+      await app.request("/test", {
+        headers: { "x-forwarded-for": "203.0.113.7" },
+      });
+      expect(event.client_ip).toBe("203.0.113.0");
+    });
+
+    it("should parse user_agent into client when enabled", async () => {
+      const app = new Hono();
+      app.use("*", wideLogger({ parseUserAgent: true }));
+
+      let event: any;
+      app.get("/test", (c) => {
+        event = c.get("wide-logger").getEvent();
+        return c.text("ok");
+      });
+
+      await app.request("/test", {
+        headers: {
+          "user-agent":
+            "Mozilla/5.0 (compatible; bingbot/2.0; +http://www.bing.com/bingbot.htm)",
+        },
+      });
+      expect(event.client).toMatchObject({
+        is_bot: true,
+        bot: "Bingbot",
+        device_type: "bot",
+      });
+    });
+
+    it("should not parse user_agent by default", async () => {
+      const app = new Hono();
+      app.use("*", wideLogger());
+
+      let event: any;
+      app.get("/test", (c) => {
+        event = c.get("wide-logger").getEvent();
+        return c.text("ok");
+      });
+
+      await app.request("/test", { headers: { "user-agent": "curl/8.4.0" } });
+      expect(event.client).toBeUndefined();
+    });
+
     it("should auto-capture user_agent", async () => {
       const app = new Hono();
       app.use("*", wideLogger());
@@ -188,7 +284,8 @@ describe("wideLogger middleware", () => {
         return c.json({ ok: true }, 201);
       });
 
-      await app.request("/test");
+      const res = await app.request("/test");
+      await res.text();
 
       expect(mockLogger.info).toHaveBeenCalled();
       const loggedEvent = JSON.parse(mockLogger.info.mock.calls[0][0]);
@@ -215,7 +312,8 @@ describe("wideLogger middleware", () => {
         return c.text("ok");
       });
 
-      await app.request("/test");
+      const res = await app.request("/test");
+      await res.text();
 
       expect(mockLogger.info).toHaveBeenCalled();
       const loggedEvent = JSON.parse(mockLogger.info.mock.calls[0][0]);
@@ -239,187 +337,1604 @@ describe("wideLogger middleware", () => {
       );
 
       app.get("/test", (c) => {
-        // Note: Hono may not always set content-length automatically
-        // This test verifies the middleware reads it when present
+        // Hono does not set content-length itself, so set it explicitly
+        c.header("content-length", "2");
         return c.text("ok");
       });
 
-      await app.request("/test");
+      const res = await app.request("/test");
+      await res.text();
 
       expect(mockLogger.info).toHaveBeenCalled();
       const loggedEvent = JSON.parse(mockLogger.info.mock.calls[0][0]);
-      // response_size_bytes is optional and only set when content-length header exists
-      // We just verify the request was logged successfully
       expect(loggedEvent.status_code).toBe(200);
+      expect(loggedEvent.response_size_bytes).toBe(2);
     });
 
-    it("should set x-request-id response header", async () => {
-      const app = new Hono();
-      app.use("*", wideLogger());
+    it("should count response bytes when content-length is absent", async () => {
+      const mockLogger = {
+        log: vi.fn(),
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
 
-      app.get("/test", (c) => c.text("ok"));
+      const app = new Hono();
+      app.use(
+        "*",
+        wideLogger({ logger: mockLogger as Logger, sampleRate: 1.0 }),
+      );
+      app.get("/test", (c) => c.text("héllo"));
 
       const res = await app.request("/test");
-      expect(res.headers.get("x-request-id")).toBeDefined();
-      expect(res.headers.get("x-request-id")).not.toBe("");
+      expect(mockLogger.info).not.toHaveBeenCalled();
+
+      expect(await res.text()).toBe("héllo");
+      const loggedEvent = JSON.parse(mockLogger.info.mock.calls[0][0]);
+      expect(loggedEvent.response_size_bytes).toBe(6);
+      expect(loggedEvent.stream_duration_ms).toBeGreaterThanOrEqual(0);
     });
-  });
 
-  describe("context API", () => {
-    it("should add user context", async () => {
+    it("should emit streamed responses only after the body finishes", async () => {
+      const mockLogger = {
+        log: vi.fn(),
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+
       const app = new Hono();
-      app.use("*", wideLogger());
+      app.use(
+        "*",
+        wideLogger({ logger: mockLogger as Logger, sampleRate: 1.0 }),
+      );
+      app.get("/stream", (c) =>
+        stream(c, async (s) => {
+          await s.write("chunk-1;");
+          await s.sleep(20);
+          await s.write("chunk-2;");
+        }),
+      );
 
-      let event: any;
-      app.get("/test", (c) => {
-        const logger = c.get("wide-logger") as WideLoggerContext;
-        logger.addContext("user", { id: "123", tier: "premium" });
-        event = logger.getEvent();
-        return c.text("ok");
-      });
+      const res = await app.request("/stream");
+      expect(await res.text()).toBe("chunk-1;chunk-2;");
 
-      await app.request("/test");
-      expect(event.user).toEqual({ id: "123", tier: "premium" });
+      const loggedEvent = JSON.parse(mockLogger.info.mock.calls[0][0]);
+      expect(loggedEvent.response_size_bytes).toBe(16);
+      expect(loggedEvent.stream_duration_ms).toBeGreaterThanOrEqual(15);
     });
 
-    it("should add business context", async () => {
+    it("should emit when the client cancels a streamed response", async () => {
+      const mockLogger = {
+        log: vi.fn(),
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+
       const app = new Hono();
-      app.use("*", wideLogger());
+      app.use(
+        "*",
+        wideLogger({ logger: mockLogger as Logger, sampleRate: 1.0 }),
+      );
+      app.get("/stream", (c) =>
+        stream(c, async (s) => {
+          await s.write("chunk-1;");
+          await s.sleep(1000);
+        }),
+      );
 
-      let event: any;
-      app.get("/test", (c) => {
-        const logger = c.get("wide-logger") as WideLoggerContext;
-        logger.addContext("business", { endpoint: "test", feature: "demo" });
-        event = logger.getEvent();
-        return c.text("ok");
-      });
+      const res = await app.request("/stream");
+      const reader = res.body!.getReader();
+      await reader.read();
+      await reader.cancel();
+      await new Promise((resolve) => setTimeout(resolve, 0));
 
-      await app.request("/test");
-      expect(event.business).toEqual({ endpoint: "test", feature: "demo" });
+      expect(mockLogger.info).toHaveBeenCalledTimes(1);
+      const loggedEvent = JSON.parse(mockLogger.info.mock.calls[0][0]);
+      expect(loggedEvent.response_size_bytes).toBe(8);
     });
 
-    it("should add infra context", async () => {
+    it("should emit HEAD responses without waiting for a body", async () => {
+      const mockLogger = {
+        log: vi.fn(),
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+
       const app = new Hono();
-      app.use("*", wideLogger());
+      app.use(
+        "*",
+        wideLogger({ logger: mockLogger as Logger, sampleRate: 1.0 }),
+      );
+      app.get("/test", (c) => c.text("héllo"));
 
-      let event: any;
-      app.get("/test", (c) => {
-        const logger = c.get("wide-logger") as WideLoggerContext;
-        logger.addContext("infra", { region: "us-east-1", pod: "pod-1" });
-        event = logger.getEvent();
-        return c.text("ok");
-      });
+      const res = await app.request("/test", { method: "HEAD" });
+      expect(res.body).toBeNull();
 
-      await app.request("/test");
-      expect(event.infra).toEqual({ region: "us-east-1", pod: "pod-1" });
+      expect(mockLogger.info).toHaveBeenCalledTimes(1);
+      const loggedEvent = JSON.parse(mockLogger.info.mock.calls[0][0]);
+      expect(loggedEvent.method).toBe("HEAD");
+      expect(loggedEvent.response_size_bytes).toBe(0);
     });
 
-    it("should add service context", async () => {
-      const app = new Hono();
-      app.use("*", wideLogger());
+    it("should emit a response body that is never read on flush", async () => {
+      const mockLogger = {
+        log: vi.fn(),
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
 
-      let event: any;
-      app.get("/test", (c) => {
-        const logger = c.get("wide-logger") as WideLoggerContext;
-        logger.addContext("service", { version: "1.0.0", git_sha: "abc123" });
-        event = logger.getEvent();
-        return c.text("ok");
+      const middleware = wideLogger({
+        logger: mockLogger as Logger,
+        sampleRate: 1.0,
       });
+      const app = new Hono();
+      app.use("*", middleware);
+      app.get("/test", (c) => c.text("héllo"));
 
       await app.request("/test");
-      expect(event.service).toEqual({ version: "1.0.0", git_sha: "abc123" });
+      expect(mockLogger.info).not.toHaveBeenCalled();
+      await middleware.flush();
+
+      expect(mockLogger.info).toHaveBeenCalledTimes(1);
+      const loggedEvent = JSON.parse(mockLogger.info.mock.calls[0][0]);
+      expect(loggedEvent.status_code).toBe(200);
+      expect(loggedEvent.response_size_bytes).toBeUndefined();
     });
 
-    it("should merge context data without overwriting existing keys", async () => {
+    it("should emit a response body that is never read after streamTimeoutMs", async () => {
+      const mockLogger = {
+        log: vi.fn(),
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+
       const app = new Hono();
-      app.use("*", wideLogger());
+      app.use(
+        "*",
+        wideLogger({
+          logger: mockLogger as Logger,
+          sampleRate: 1.0,
+          streamTimeoutMs: 10,
+        }),
+      );
+      app.get("/test", (c) => c.text("héllo"));
 
-      let event: any;
-      app.get("/test", (c) => {
-        const logger = c.get("wide-logger") as WideLoggerContext;
-        logger.addContext("user", { id: "123" });
-        logger.addContext("user", { tier: "premium" });
-        event = logger.getEvent();
-        return c.text("ok");
-      });
+      const res = await app.request("/test");
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      expect(mockLogger.info).toHaveBeenCalledTimes(1);
 
-      await app.request("/test");
-      expect(event.user).toEqual({ id: "123", tier: "premium" });
+      // Finishing the body later doesn't emit again
+      await res.text();
+      expect(mockLogger.info).toHaveBeenCalledTimes(1);
     });
 
-    it("should overwrite existing values with same keys", async () => {
+    it("should capture request_size_bytes from content-length", async () => {
+      const mockLogger = {
+        log: vi.fn(),
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+
       const app = new Hono();
-      app.use("*", wideLogger());
+      app.use(
+        "*",
+        wideLogger({ logger: mockLogger as Logger, sampleRate: 1.0 }),
+      );
+      app.post("/test", async (c) => c.json(await c.req.json()));
 
-      let event: any;
-      app.get("/test", (c) => {
-        const logger = c.get("wide-logger") as WideLoggerContext;
-        logger.addContext("user", { id: "123" });
-        logger.addContext("user", { id: "456" });
-        event = logger.getEvent();
-        return c.text("ok");
+      const res = await app.request("/test", {
+        method: "POST",
+        body: JSON.stringify({ a: 1 }),
+        headers: { "content-length": "7" },
       });
+      await res.text();
 
-      await app.request("/test");
-      expect(event.user).toEqual({ id: "456" });
+      const loggedEvent = JSON.parse(mockLogger.info.mock.calls[0][0]);
+      expect(loggedEvent.request_size_bytes).toBe(7);
     });
 
-    it("should add error details", async () => {
-      const app = new Hono();
-      app.use("*", wideLogger());
+    it("should count chunked request bodies as the handler reads them", async () => {
+      const mockLogger = {
+        log: vi.fn(),
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
 
-      let event: any;
-      app.get("/test", (c) => {
-        const logger = c.get("wide-logger") as WideLoggerContext;
-        const error = new Error("Test error");
-        logger.addError(error, { code: "TEST_ERROR", retriable: true });
-        event = logger.getEvent();
-        return c.text("ok");
+      const app = new Hono();
+      app.use(
+        "*",
+        wideLogger({ logger: mockLogger as Logger, sampleRate: 1.0 }),
+      );
+      app.post("/upload", async (c) => c.text(await c.req.text()));
+
+      const encoder = new TextEncoder();
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(encoder.encode("hello "));
+          controller.enqueue(encoder.encode("world"));
+          controller.close();
+        },
       });
 
-      await app.request("/test");
-      expect(event.error).toBeDefined();
-      expect(event.error.type).toBe("Error");
-      expect(event.error.code).toBe("TEST_ERROR");
-      expect(event.error.message).toBe("Test error");
-      expect(event.error.retriable).toBe(true);
+      const res = await app.request("/upload", {
+        method: "POST",
+        body,
+        duplex: "half",
+      } as RequestInit);
+      expect(await res.text()).toBe("hello world");
+
+      const loggedEvent = JSON.parse(mockLogger.info.mock.calls[0][0]);
+      expect(loggedEvent.request_size_bytes).toBe(11);
     });
 
-    it("should include UNKNOWN code if error has no code", async () => {
+    it("should set x-request-id response header", async () => {
       const app = new Hono();
       app.use("*", wideLogger());
 
-      let event: any;
-      app.get("/test", (c) => {
-        const logger = c.get("wide-logger" as any) as WideLoggerContext;
-        logger.addError(new Error("Test error"));
-        event = logger.getEvent();
+      app.get("/test", (c) => c.text("ok"));
+
+      const res = await app.request("/test");
+      expect(res.headers.get("x-request-id")).toBeDefined();
+      expect(res.headers.get("x-request-id")).not.toBe("");
+    });
+  });
+
+  describe("route capture", () => {
+    it("should capture the matched route template and params", async () => {
+      const mockLogger = createMockLogger();
+      const app = new Hono();
+      app.use(
+        "*",
+        wideLogger({ logger: mockLogger as Logger, sampleRate: 1.0 }),
+      );
+      app.get("/users/:id/posts/:postId", (c) => c.text("ok"));
+
+      const res = await app.request("/users/123/posts/456");
+      await res.text();
+
+      const loggedEvent = JSON.parse(mockLogger.info.mock.calls[0][0]);
+      expect(loggedEvent.path).toBe("/users/123/posts/456");
+      expect(loggedEvent.route).toBe("/users/:id/posts/:postId");
+      expect(loggedEvent.params).toEqual({ id: "123", postId: "456" });
+    });
+
+    it("should include the base path of mounted sub-apps", async () => {
+      const mockLogger = createMockLogger();
+      const users = new Hono();
+      users.get("/:id", (c) => c.text("ok"));
+
+      const app = new Hono();
+      app.use(
+        "*",
+        wideLogger({ logger: mockLogger as Logger, sampleRate: 1.0 }),
+      );
+      app.route("/users", users);
+
+      const res = await app.request("/users/123");
+      await res.text();
+
+      const loggedEvent = JSON.parse(mockLogger.info.mock.calls[0][0]);
+      expect(loggedEvent.route).toBe("/users/:id");
+    });
+
+    it("should omit params for static routes", async () => {
+      const mockLogger = createMockLogger();
+      const app = new Hono();
+      app.use(
+        "*",
+        wideLogger({ logger: mockLogger as Logger, sampleRate: 1.0 }),
+      );
+      app.get("/health", (c) => c.text("ok"));
+
+      const res = await app.request("/health");
+      await res.text();
+
+      const loggedEvent = JSON.parse(mockLogger.info.mock.calls[0][0]);
+      expect(loggedEvent.route).toBe("/health");
+      expect(loggedEvent.params).toBeUndefined();
+    });
+
+    it("should leave route unset when no handler matched", async () => {
+      const mockLogger = createMockLogger();
+      const app = new Hono();
+      app.use(
+        "*",
+        wideLogger({ logger: mockLogger as Logger, sampleRate: 1.0 }),
+      );
+
+      const res = await app.request("/missing");
+      await res.text();
+
+      const loggedEvent = JSON.parse(mockLogger.info.mock.calls[0][0]);
+      expect(loggedEvent.status_code).toBe(404);
+      expect(loggedEvent.route).toBeUndefined();
+    });
+
+    it("should leave route unset when only trailing middleware matched", async () => {
+      const mockLogger = createMockLogger();
+      const app = new Hono();
+      app.use(
+        "*",
+        wideLogger({ logger: mockLogger as Logger, sampleRate: 1.0 }),
+      );
+      app.get("/api/users", (c) => c.text("ok"));
+      app.use("/api/*", async (c, next) => {
+        await next();
+        c.header("x-api", "1");
+      });
+
+      await (await app.request("/api/users")).text();
+      await (await app.request("/api/nothing")).text();
+
+      const [matched, missing] = mockLogger.info.mock.calls.map(([line]) =>
+        JSON.parse(line),
+      );
+      expect(matched.route).toBe("/api/users");
+      expect(missing.status_code).toBe(404);
+      expect(missing.route).toBeUndefined();
+    });
+  });
+
+  describe("trace context", () => {
+    const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+    const parentId = "00f067aa0ba902b7";
+
+    it("should join the incoming trace with a new span", async () => {
+      const app = new Hono();
+      app.use("*", wideLogger());
+
+      let event: any;
+      app.get("/test", (c) => {
+        event = c.get("wide-logger").getEvent();
+        return c.text("ok");
+      });
+
+      await app.request("/test", {
+        headers: { traceparent: `00-${traceId}-${parentId}-01` },
+      });
+
+      expect(event.trace_id).toBe(traceId);
+      expect(event.parent_span_id).toBe(parentId);
+      expect(event.span_id).toMatch(/^[0-9a-f]{16}$/);
+      expect(event.span_id).not.toBe(parentId);
+      expect(event.trace_flags).toBe("01");
+    });
+
+    it("should start a new trace without a valid traceparent", async () => {
+      const app = new Hono();
+      app.use("*", wideLogger());
+
+      let event: any;
+      app.get("/test", (c) => {
+        event = c.get("wide-logger").getEvent();
+        return c.text("ok");
+      });
+
+      await app.request("/test", { headers: { traceparent: "invalid" } });
+
+      expect(event.trace_id).toMatch(/^[0-9a-f]{32}$/);
+      expect(event.span_id).toMatch(/^[0-9a-f]{16}$/);
+      expect(event.parent_span_id).toBeUndefined();
+    });
+
+    it("should build outgoing headers that continue the trace", async () => {
+      const app = new Hono();
+      app.use("*", wideLogger());
+
+      let headers: Record<string, string> = {};
+      let event: any;
+      app.get("/test", (c) => {
+        const logger = c.get("wide-logger");
+        headers = logger.getTraceHeaders();
+        event = logger.getEvent();
+        return c.text("ok");
+      });
+
+      await app.request("/test", {
+        headers: {
+          traceparent: `00-${traceId}-${parentId}-00`,
+          tracestate: "vendor=abc",
+          "x-request-id": "req-123",
+        },
+      });
+
+      expect(headers.traceparent).toBe(`00-${traceId}-${event.span_id}-00`);
+      expect(headers.tracestate).toBe("vendor=abc");
+      expect(headers["x-request-id"]).toBe("req-123");
+    });
+  });
+
+  describe("runtime detection", () => {
+    it("should stamp runtime and environment into infra", async () => {
+      const app = new Hono();
+      app.use("*", wideLogger());
+
+      let event: any;
+      app.get("/test", (c) => {
+        event = c.get("wide-logger").getEvent();
+        return c.text("ok");
+      });
+
+      await app.request("/test");
+      expect(event.infra.runtime).toBe("node");
+      // vitest sets NODE_ENV=test
+      expect(event.infra.environment).toBe("test");
+    });
+
+    it("should use the Cloudflare colo as region", async () => {
+      const app = new Hono();
+      app.use("*", wideLogger());
+
+      let event: any;
+      app.get("/test", (c) => {
+        event = c.get("wide-logger").getEvent();
+        return c.text("ok");
+      });
+
+      const request = new Request("http://localhost/test");
+      Object.defineProperty(request, "cf", { value: { colo: "SJC" } });
+      await app.request(request);
+
+      expect(event.infra.region).toBe("SJC");
+    });
+
+    it("should include stacks only in development unless configured", async () => {
+      const errorFor = async (options: Parameters<typeof wideLogger>[0]) => {
+        const app = new Hono();
+        app.use("*", wideLogger(options));
+
+        let event: any;
+        app.get("/test", (c) => {
+          const logger = c.get("wide-logger");
+          logger.addError(new Error("boom"));
+          event = logger.getEvent();
+          return c.text("ok");
+        });
+
+        await app.request("/test");
+        return event.error;
+      };
+
+      expect((await errorFor({})).stack).toBeUndefined();
+      expect(
+        (await errorFor({ environment: "development" })).stack,
+      ).toBeDefined();
+      expect(
+        (await errorFor({ environment: "production", includeStack: true }))
+          .stack,
+      ).toBeDefined();
+    });
+  });
+
+  describe("context API", () => {
+    it("should add user context", async () => {
+      const app = new Hono();
+      app.use("*", wideLogger());
+
+      let event: any;
+      app.get("/test", (c) => {
+        const logger = c.get("wide-logger") as WideLoggerContext;
+        logger.addContext("user", { id: "123", tier: "premium" });
+        event = logger.getEvent();
+        return c.text("ok");
+      });
+
+      await app.request("/test");
+      expect(event.user).toEqual({ id: "123", tier: "premium" });
+    });
+
+    it("should add business context", async () => {
+      const app = new Hono();
+      app.use("*", wideLogger());
+
+      let event: any;
+      app.get("/test", (c) => {
+        const logger = c.get("wide-logger") as WideLoggerContext;
+        logger.addContext("business", { endpoint: "test", feature: "demo" });
+        event = logger.getEvent();
+        return c.text("ok");
+      });
+
+      await app.request("/test");
+      expect(event.business).toEqual({ endpoint: "test", feature: "demo" });
+    });
+
+    it("should add infra context", async () => {
+      const app = new Hono();
+      app.use("*", wideLogger({ environment: "production" }));
+
+      let event: any;
+      app.get("/test", (c) => {
+        const logger = c.get("wide-logger") as WideLoggerContext;
+        logger.addContext("infra", { region: "us-east-1", pod: "pod-1" });
+        event = logger.getEvent();
+        return c.text("ok");
+      });
+
+      await app.request("/test");
+      // Merged over the auto-detected runtime fields
+      expect(event.infra).toEqual({
+        runtime: "node",
+        environment: "production",
+        region: "us-east-1",
+        pod: "pod-1",
+      });
+    });
+
+    it("should add service context", async () => {
+      const app = new Hono();
+      app.use("*", wideLogger());
+
+      let event: any;
+      app.get("/test", (c) => {
+        const logger = c.get("wide-logger") as WideLoggerContext;
+        logger.addContext("service", { version: "1.0.0", git_sha: "abc123" });
+        event = logger.getEvent();
+        return c.text("ok");
+      });
+
+      await app.request("/test");
+      expect(event.service).toEqual({ version: "1.0.0", git_sha: "abc123" });
+    });
+
+    it("should add custom context categories", async () => {
+      type AppContext = {
+        feature_flags: { new_checkout: boolean };
+        payment: { provider: string; amount_cents: number };
+      };
+
+      const app = new Hono<WideLoggerEnv<AppContext>>();
+      app.use("*", wideLogger<AppContext>());
+
+      let event: any;
+      app.get("/test", (c) => {
+        const logger = c.get("wide-logger");
+        logger.addContext("feature_flags", { new_checkout: true });
+        logger.addContext("payment", { provider: "stripe" });
+        logger.addContext("payment", { amount_cents: 4200 });
+        event = logger.getEvent();
+        return c.text("ok");
+      });
+
+      await app.request("/test");
+      expect(event.feature_flags).toEqual({ new_checkout: true });
+      expect(event.payment).toEqual({ provider: "stripe", amount_cents: 4200 });
+    });
+
+    it("should merge context data without overwriting existing keys", async () => {
+      const app = new Hono();
+      app.use("*", wideLogger());
+
+      let event: any;
+      app.get("/test", (c) => {
+        const logger = c.get("wide-logger") as WideLoggerContext;
+        logger.addContext("user", { id: "123" });
+        logger.addContext("user", { tier: "premium" });
+        event = logger.getEvent();
+        return c.text("ok");
+      });
+
+      await app.request("/test");
+      expect(event.user).toEqual({ id: "123", tier: "premium" });
+    });
+
+    it("should overwrite existing values with same keys", async () => {
+      const app = new Hono();
+      app.use("*", wideLogger());
+
+      let event: any;
+      app.get("/test", (c) => {
+        const logger = c.get("wide-logger") as WideLoggerContext;
+        logger.addContext("user", { id: "123" });
+        logger.addContext("user", { id: "456" });
+        event = logger.getEvent();
+        return c.text("ok");
+      });
+
+      await app.request("/test");
+      expect(event.user).toEqual({ id: "456" });
+    });
+
+    it("should add error details", async () => {
+      const app = new Hono();
+      app.use("*", wideLogger());
+
+      let event: any;
+      app.get("/test", (c) => {
+        const logger = c.get("wide-logger") as WideLoggerContext;
+        const error = new Error("Test error");
+        logger.addError(error, { code: "TEST_ERROR", retriable: true });
+        event = logger.getEvent();
+        return c.text("ok");
+      });
+
+      await app.request("/test");
+      expect(event.error).toBeDefined();
+      expect(event.error.type).toBe("Error");
+      expect(event.error.code).toBe("TEST_ERROR");
+      expect(event.error.message).toBe("Test error");
+      expect(event.error.retriable).toBe(true);
+    });
+
+    it("should keep the first added error as primary", async () => {
+      const app = new Hono();
+      app.use("*", wideLogger());
+
+      let event: any;
+      app.get("/test", (c) => {
+        const logger = c.get("wide-logger");
+        logger.addError(new Error("first"));
+        logger.addError(new Error("second"));
+        event = logger.getEvent();
+        return c.text("ok");
+      });
+
+      await app.request("/test");
+      expect(event.error.message).toBe("first");
+      expect(event.errors).toHaveLength(2);
+    });
+
+    it("should include UNKNOWN code if error has no code", async () => {
+      const app = new Hono();
+      app.use("*", wideLogger());
+
+      let event: any;
+      app.get("/test", (c) => {
+        const logger = c.get("wide-logger" as any) as WideLoggerContext;
+        logger.addError(new Error("Test error"));
+        event = logger.getEvent();
+        return c.text("ok");
+      });
+
+      await app.request("/test");
+      expect(event.error.code).toBe("UNKNOWN");
+    });
+
+    it("should set retriable to false by default", async () => {
+      const app = new Hono();
+      app.use("*", wideLogger());
+
+      let event: any;
+      app.get("/test", (c) => {
+        const logger = c.get("wide-logger" as any) as WideLoggerContext;
+        logger.addError(new Error("Test error"));
+        event = logger.getEvent();
+        return c.text("ok");
+      });
+
+      await app.request("/test");
+      expect(event.error.retriable).toBe(false);
+    });
+  });
+
+  describe("spans", () => {
+    it("should include spans and rollups in the logged event", async () => {
+      const mockLogger = {
+        log: vi.fn(),
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+
+      const app = new Hono();
+      app.use(
+        "*",
+        wideLogger({ logger: mockLogger as Logger, sampleRate: 1.0 }),
+      );
+      app.get("/test", async (c) => {
+        const logger = c.get("wide-logger");
+        await logger.time("db.query", () => "row");
+        await logger.time("db.query", () => "row");
+        logger.startSpan("http.fetch", { host: "api.example.com" }).end();
+        return c.text("ok");
+      });
+
+      const res = await app.request("/test");
+      await res.text();
+
+      const loggedEvent = JSON.parse(mockLogger.info.mock.calls[0][0]);
+      expect(loggedEvent.spans.map((span: any) => span.name)).toEqual([
+        "db.query",
+        "db.query",
+        "http.fetch",
+      ]);
+      expect(loggedEvent.span_rollups.db.count).toBe(2);
+      expect(loggedEvent.span_rollups.http.count).toBe(1);
+    });
+  });
+
+  describe("header capture", () => {
+    it("should capture allowlisted headers and cookies", async () => {
+      const mockLogger = {
+        log: vi.fn(),
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+
+      const app = new Hono();
+      app.use(
+        "*",
+        wideLogger({
+          logger: mockLogger as Logger,
+          sampleRate: 1.0,
+          captureRequestHeaders: [
+            "accept-language",
+            /^x-feature-/,
+            "authorization",
+          ],
+          captureResponseHeaders: ["cache-control", "set-cookie"],
+          captureCookies: ["ab_variant"],
+        }),
+      );
+      app.get("/test", (c) => {
+        c.header("Cache-Control", "no-store");
+        c.header("Set-Cookie", "session=new");
+        return c.text("ok");
+      });
+
+      await (
+        await app.request("/test", {
+          headers: {
+            "Accept-Language": "en-GB",
+            "X-Feature-Beta": "1",
+            Authorization: "Bearer secret",
+            Cookie: "session=abc; ab_variant=b",
+          },
+        })
+      ).text();
+
+      const loggedEvent = JSON.parse(mockLogger.info.mock.calls[0][0]);
+      expect(loggedEvent.request).toEqual({
+        headers: { "accept-language": "en-GB", "x-feature-beta": "1" },
+        cookies: { ab_variant: "b" },
+      });
+      expect(loggedEvent.response).toEqual({
+        headers: { "cache-control": "no-store" },
+      });
+    });
+
+    it("should capture nothing by default", async () => {
+      const mockLogger = {
+        log: vi.fn(),
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+
+      const app = new Hono();
+      app.use(
+        "*",
+        wideLogger({ logger: mockLogger as Logger, sampleRate: 1.0 }),
+      );
+      app.get("/test", (c) => c.text("ok"));
+
+      await (
+        await app.request("/test", { headers: { "Accept-Language": "en" } })
+      ).text();
+
+      const loggedEvent = JSON.parse(mockLogger.info.mock.calls[0][0]);
+      expect(loggedEvent.request).toBeUndefined();
+      expect(loggedEvent.response).toBeUndefined();
+    });
+  });
+
+  describe("body capture", () => {
+    it("should capture request and response bodies without consuming them", async () => {
+      const logger = createMockLogger();
+      const middleware = wideLogger({
+        logger: logger as Logger,
+        sampleRate: 1.0,
+        captureBody: true,
+      });
+      const app = new Hono();
+      app.use("*", middleware);
+      app.post("/webhooks/stripe", async (c) => {
+        const payload = await c.req.json();
+        return c.json({ received: payload.id });
+      });
+
+      const res = await app.request("/webhooks/stripe", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ id: "evt_1", type: "charge.succeeded" }),
+      });
+      expect(await res.json()).toEqual({ received: "evt_1" });
+      await middleware.flush();
+
+      const loggedEvent = JSON.parse(logger.info.mock.calls[0][0]);
+      expect(loggedEvent.request).toEqual({
+        body: { id: "evt_1", type: "charge.succeeded" },
+        body_truncated: false,
+      });
+      expect(loggedEvent.response).toEqual({
+        body: { received: "evt_1" },
+        body_truncated: false,
+      });
+    });
+
+    it("should truncate and redact captured bodies", async () => {
+      const logger = createMockLogger();
+      const middleware = wideLogger({
+        logger: logger as Logger,
+        sampleRate: 1.0,
+        captureBody: { response: false, maxBytes: 32 },
+        redact: { rules: [{ pattern: "email" }] },
+      });
+      const app = new Hono();
+      app.use("*", middleware);
+      app.post("/signup", (c) => c.text("ok"));
+
+      await (
+        await app.request("/signup", {
+          method: "POST",
+          headers: { "content-type": "text/plain" },
+          body: "contact jane@example.com about the long form below",
+        })
+      ).text();
+      await middleware.flush();
+
+      const loggedEvent = JSON.parse(logger.info.mock.calls[0][0]);
+      expect(loggedEvent.request.body).toBe("contact [REDACTED] about t");
+      expect(loggedEvent.request.body_truncated).toBe(true);
+      expect(loggedEvent.response).toBeUndefined();
+    });
+
+    it("should only capture on configured routes", async () => {
+      const logger = createMockLogger();
+      const middleware = wideLogger({
+        logger: logger as Logger,
+        sampleRate: 1.0,
+        captureBody: { routes: ["/payments/*"] },
+      });
+      const app = new Hono();
+      app.use("*", middleware);
+      app.get("/payments/:id", (c) => c.json({ id: c.req.param("id") }));
+      app.get("/users/:id", (c) => c.json({ id: c.req.param("id") }));
+
+      await (await app.request("/payments/1")).text();
+      await (await app.request("/users/1")).text();
+      await middleware.flush();
+
+      const [payment, user] = logger.info.mock.calls.map(([line]) =>
+        JSON.parse(line),
+      );
+      expect(payment.response.body).toEqual({ id: "1" });
+      expect(user.response).toBeUndefined();
+    });
+
+    it("should stop copying a body once maxBytes are read", async () => {
+      const logger = createMockLogger();
+      const middleware = wideLogger({
+        logger: logger as Logger,
+        sampleRate: 1.0,
+        captureBody: { request: false, maxBytes: 16 },
+      });
+      const app = new Hono();
+      app.use("*", middleware);
+      app.get("/export", () => {
+        let rows = 0;
+        const stream = new ReadableStream<Uint8Array>({
+          pull(controller) {
+            // Fails long after the captured prefix
+            if (++rows > 8) controller.error(new Error("export failed"));
+            else controller.enqueue(new TextEncoder().encode("row,row\n"));
+          },
+        });
+        return new Response(stream, {
+          headers: { "content-type": "text/csv" },
+        });
+      });
+
+      const res = await app.request("/export");
+      await expect(res.text()).rejects.toThrow("export failed");
+      await middleware.flush();
+
+      const loggedEvent = JSON.parse(logger.info.mock.calls[0][0]);
+      expect(loggedEvent.response).toEqual({
+        body: "row,row\nrow,row\n",
+        body_truncated: true,
+      });
+    });
+
+    it("should not capture event streams", async () => {
+      const logger = createMockLogger();
+      const middleware = wideLogger({
+        logger: logger as Logger,
+        sampleRate: 1.0,
+        captureBody: true,
+      });
+      const app = new Hono();
+      app.use("*", middleware);
+      app.get("/events", (c) =>
+        c.body("data: hello\n\n", 200, { "content-type": "text/event-stream" }),
+      );
+
+      await (await app.request("/events")).text();
+      await middleware.flush();
+
+      const loggedEvent = JSON.parse(logger.info.mock.calls[0][0]);
+      expect(loggedEvent.response).toBeUndefined();
+    });
+
+    it("should not let a stalled body hold up later events", async () => {
+      const logger = createMockLogger();
+      const storage = createEventStore();
+      const middleware = wideLogger({
+        logger: logger as Logger,
+        storage,
+        sampleRate: 1.0,
+        captureBody: true,
+        streamTimeoutMs: 20,
+      });
+      const app = new Hono();
+      app.use("*", middleware);
+      app.get("/hang", (c) => {
+        c.header("content-type", "text/plain");
+        return stream(c, async (s) => {
+          await s.write("partial");
+          await new Promise(() => {});
+        });
+      });
+      app.get("/ok", (c) => c.json({ ok: true }));
+
+      await app.request("/hang");
+      await new Promise((resolve) => setTimeout(resolve, 40));
+      await (await app.request("/ok")).text();
+      await middleware.flush();
+
+      const [hung, ok] = logger.info.mock.calls.map(([line]) =>
+        JSON.parse(line),
+      );
+      expect(hung.path).toBe("/hang");
+      expect(hung.response).toBeUndefined();
+      expect(ok.response.body).toEqual({ ok: true });
+      expect(storage.size).toBe(2);
+    });
+
+    it("should emit without a body that fails to read", async () => {
+      const logger = createMockLogger();
+      const middleware = wideLogger({
+        logger: logger as Logger,
+        sampleRate: 1.0,
+        captureBody: { response: false },
+      });
+      const app = new Hono();
+      app.use("*", middleware);
+      app.post("/webhooks", (c) => c.text("ok"));
+
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('{"id":'));
+          controller.error(new Error("connection reset"));
+        },
+      });
+      await (
+        await app.request("/webhooks", {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body,
+          duplex: "half",
+        } as RequestInit)
+      ).text();
+      await middleware.flush();
+
+      expect(logger.error).not.toHaveBeenCalled();
+      expect(logger.info).toHaveBeenCalledTimes(1);
+      const loggedEvent = JSON.parse(logger.info.mock.calls[0][0]);
+      expect(loggedEvent.request).toBeUndefined();
+    });
+
+    it("should not read bodies of dropped events", async () => {
+      const logger = createMockLogger();
+      const middleware = wideLogger({
+        logger: logger as Logger,
+        sampleRate: 0,
+        captureBody: true,
+      });
+      const app = new Hono();
+      app.use("*", middleware);
+      app.get("/test", (c) => c.json({ ok: true }));
+
+      const res = await app.request("/test");
+      expect(await res.json()).toEqual({ ok: true });
+      await middleware.flush();
+
+      expect(logger.info).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("breadcrumbs", () => {
+    it("should attach log lines to the event", async () => {
+      const mockLogger = {
+        log: vi.fn(),
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+
+      const app = new Hono();
+      app.use(
+        "*",
+        wideLogger({
+          logger: mockLogger as Logger,
+          sampleRate: 1.0,
+          maxLogs: 2,
+        }),
+      );
+      app.get("/test", (c) => {
+        const logger = c.get("wide-logger");
+        logger.log("info", "cache miss", { key: "user:1" });
+        logger.log("warn", "retrying payment", { attempt: 2 });
+        logger.log("warn", "retrying payment", { attempt: 3 });
+        return c.text("ok");
+      });
+
+      await (await app.request("/test")).text();
+
+      // Breadcrumbs don't produce log lines of their own
+      expect(mockLogger.warn).not.toHaveBeenCalled();
+      const loggedEvent = JSON.parse(mockLogger.info.mock.calls[0][0]);
+      expect(loggedEvent.logs).toMatchObject([
+        { level: "info", message: "cache miss", attrs: { key: "user:1" } },
+        { level: "warn", message: "retrying payment", attrs: { attempt: 2 } },
+      ]);
+      expect(loggedEvent.logs_dropped).toBe(1);
+    });
+  });
+
+  describe("error handling", () => {
+    it("should catch errors and add to event", async () => {
+      const mockLogger = {
+        log: vi.fn(),
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+
+      const app = new Hono();
+      app.use("*", wideLogger({ logger: mockLogger as Logger }));
+
+      app.get("/error", () => {
+        throw new Error("Test error");
+      });
+
+      const res = await app.request("/error");
+      await res.text();
+
+      // Should have logged the event with error
+      expect(mockLogger.error).toHaveBeenCalled();
+      const loggedEvent = JSON.parse(mockLogger.error.mock.calls[0][0]);
+      expect(loggedEvent.error).toBeDefined();
+      // Hono catches errors internally; the original is recovered from c.error
+      expect(loggedEvent.error.message).toBe("Test error");
+    });
+
+    it("should record a generic error for 5xx responses without a throw", async () => {
+      const mockLogger = {
+        log: vi.fn(),
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+
+      const app = new Hono();
+      app.use("*", wideLogger({ logger: mockLogger as Logger }));
+      app.get("/error", (c) => c.text("unavailable", 503));
+
+      const res = await app.request("/error");
+      await res.text();
+
+      const loggedEvent = JSON.parse(mockLogger.error.mock.calls[0][0]);
+      expect(loggedEvent.error.message).toBe("HTTP 503 error");
+    });
+
+    it("should keep the status of a thrown HTTPException", async () => {
+      const mockLogger = {
+        log: vi.fn(),
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+
+      const app = new Hono();
+      app.use(
+        "*",
+        wideLogger({ logger: mockLogger as Logger, sampleRate: 1.0 }),
+      );
+      app.get("/missing", () => {
+        throw new HTTPException(404, { message: "User not found" });
+      });
+
+      const res = await app.request("/missing");
+      await res.text();
+      expect(res.status).toBe(404);
+
+      // A 4xx is an expected outcome: listed, but not the event's error
+      expect(mockLogger.error).not.toHaveBeenCalled();
+      const loggedEvent = JSON.parse(mockLogger.info.mock.calls[0][0]);
+      expect(loggedEvent.status_code).toBe(404);
+      expect(loggedEvent.error).toBeUndefined();
+      expect(loggedEvent.errors).toMatchObject([
+        { type: "Error", message: "User not found", status: 404 },
+      ]);
+    });
+
+    it("should sample 4xx HTTPExceptions like other 4xx responses", async () => {
+      const mockLogger = {
+        log: vi.fn(),
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+
+      const app = new Hono();
+      app.use("*", wideLogger({ logger: mockLogger as Logger, sampleRate: 0 }));
+      app.get("/private", () => {
+        throw new HTTPException(401, { message: "Unauthorized" });
+      });
+
+      await (await app.request("/private")).text();
+
+      expect(mockLogger.info).not.toHaveBeenCalled();
+      expect(mockLogger.error).not.toHaveBeenCalled();
+    });
+
+    it("should treat 4xx HTTPExceptions as errors with errorCode 400", async () => {
+      const mockLogger = {
+        log: vi.fn(),
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+
+      const app = new Hono();
+      app.use(
+        "*",
+        wideLogger({
+          logger: mockLogger as Logger,
+          sampleRate: 0,
+          errorCode: 400,
+        }),
+      );
+      app.get("/private", () => {
+        throw new HTTPException(401, { message: "Unauthorized" });
+      });
+
+      await (await app.request("/private")).text();
+
+      const loggedEvent = JSON.parse(mockLogger.error.mock.calls[0][0]);
+      expect(loggedEvent.error).toMatchObject({ status: 401 });
+    });
+
+    it("should capture error cause chains", async () => {
+      const mockLogger = {
+        log: vi.fn(),
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+
+      const app = new Hono();
+      app.use("*", wideLogger({ logger: mockLogger as Logger }));
+      app.get("/error", () => {
+        const root = Object.assign(new Error("connection refused"), {
+          code: "ECONNREFUSED",
+        });
+        throw new Error("Payment failed", { cause: root });
+      });
+
+      const res = await app.request("/error");
+      await res.text();
+
+      const loggedEvent = JSON.parse(mockLogger.error.mock.calls[0][0]);
+      expect(loggedEvent.error.message).toBe("Payment failed");
+      expect(loggedEvent.error.cause).toMatchObject({
+        message: "connection refused",
+        code: "ECONNREFUSED",
+      });
+    });
+
+    it("should keep every error and make the uncaught one primary", async () => {
+      const mockLogger = {
+        log: vi.fn(),
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+
+      const app = new Hono();
+      app.use("*", wideLogger({ logger: mockLogger as Logger }));
+      app.get("/error", (c) => {
+        const logger = c.get("wide-logger");
+        logger.addError(new Error("cache unavailable"));
+        logger.addError(new Error("retrying"));
+        throw new Error("database down");
+      });
+
+      const res = await app.request("/error");
+      await res.text();
+
+      const loggedEvent = JSON.parse(mockLogger.error.mock.calls[0][0]);
+      expect(loggedEvent.errors.map((e: any) => e.message)).toEqual([
+        "cache unavailable",
+        "retrying",
+        "database down",
+      ]);
+      expect(loggedEvent.error.message).toBe("database down");
+    });
+
+    it("should set status_code to 500 on error", async () => {
+      const mockLogger = {
+        log: vi.fn(),
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+
+      const app = new Hono();
+      app.use("*", wideLogger({ logger: mockLogger as Logger }));
+
+      app.get("/error", () => {
+        throw new Error("Test error");
+      });
+
+      const res = await app.request("/error");
+      await res.text();
+      expect(res.status).toBe(500);
+
+      const loggedEvent = JSON.parse(mockLogger.error.mock.calls[0][0]);
+      expect(loggedEvent.status_code).toBe(500);
+    });
+
+    it("should calculate duration_ms even on error", async () => {
+      const mockLogger = {
+        log: vi.fn(),
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+
+      const app = new Hono();
+      app.use("*", wideLogger({ logger: mockLogger as Logger }));
+
+      app.get("/error", () => {
+        throw new Error("Test error");
+      });
+
+      const res = await app.request("/error");
+      await res.text();
+
+      const loggedEvent = JSON.parse(mockLogger.error.mock.calls[0][0]);
+      expect(loggedEvent.duration_ms).toBeDefined();
+      expect(loggedEvent.duration_ms).toBeGreaterThanOrEqual(0);
+    });
+
+    it("should still log event when error occurs", async () => {
+      const mockLogger = {
+        log: vi.fn(),
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+
+      const app = new Hono();
+      app.use("*", wideLogger({ logger: mockLogger as Logger }));
+
+      app.get("/error", () => {
+        throw new Error("Test error");
+      });
+
+      const res = await app.request("/error");
+      await res.text();
+
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+  });
+
+  describe("redaction", () => {
+    it("should redact events before logging and storage", async () => {
+      const mockLogger = {
+        log: vi.fn(),
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+      const storage: Storage = { set: vi.fn(), get: vi.fn(), delete: vi.fn() };
+
+      const app = new Hono();
+      const middleware = wideLogger({
+        logger: mockLogger as Logger,
+        storage,
+        sampleRate: 1.0,
+        redact: { rules: ["query_params.token", { pattern: "email" }] },
+      });
+      app.use("*", middleware);
+
+      let liveEvent: any;
+      app.get("/test", (c) => {
+        const logger = c.get("wide-logger");
+        logger.addContext("user", { email: "jane@example.com" });
+        liveEvent = logger.getEvent();
         return c.text("ok");
       });
 
-      await app.request("/test");
-      expect(event.error.code).toBe("UNKNOWN");
+      const res = await app.request("/test?token=abc&page=1");
+      await res.text();
+      await middleware.flush();
+
+      const loggedEvent = JSON.parse(mockLogger.info.mock.calls[0][0]);
+      expect(loggedEvent.query_params).toEqual({
+        token: "[REDACTED]",
+        page: "1",
+      });
+      expect(loggedEvent.user.email).toBe("[REDACTED]");
+
+      const storedEvent = (storage.set as any).mock.calls[0][1];
+      expect(storedEvent.user.email).toBe("[REDACTED]");
+
+      // Handlers keep seeing the raw values
+      expect(liveEvent.user.email).toBe("jane@example.com");
+    });
+  });
+
+  describe("status policy", () => {
+    it("should log 4xx responses when errorCode is 400", async () => {
+      const logger = createMockLogger();
+      const app = new Hono();
+      app.use(
+        "*",
+        wideLogger({ logger: logger as Logger, sampleRate: 0, errorCode: 400 }),
+      );
+      app.get("/test", (c) => c.text("bad", 400));
+
+      const res = await app.request("/test");
+      await res.text();
+
+      expect(logger.info).toHaveBeenCalledTimes(1);
+    });
+
+    it("should drop overridden statuses", async () => {
+      const logger = createMockLogger();
+      const app = new Hono();
+      app.use(
+        "*",
+        wideLogger({
+          logger: logger as Logger,
+          sampleRate: 1.0,
+          statusPolicy: { overrides: { 404: "drop" } },
+        }),
+      );
+
+      const res = await app.request("/missing");
+      await res.text();
+
+      expect(logger.info).not.toHaveBeenCalled();
+    });
+
+    it("should pass the status verdict to custom sampling", async () => {
+      const logger = createMockLogger();
+      const sampling = vi.fn((_event, { status }) => status === "keep");
+      const app = new Hono();
+      app.use(
+        "*",
+        wideLogger({
+          logger: logger as Logger,
+          sampling,
+          statusPolicy: { overrides: { 429: "keep" } },
+        }),
+      );
+      app.get("/limited", (c) => c.text("slow down", 429));
+      app.get("/ok", (c) => c.text("ok"));
+
+      await (await app.request("/limited")).text();
+      await (await app.request("/ok")).text();
+
+      expect(sampling.mock.calls[0][1]).toEqual({ status: "keep" });
+      expect(sampling.mock.calls[1][1]).toEqual({ status: undefined });
+      expect(logger.info).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("sampling rules", () => {
+    it("should record sample_reason and sample_rate", async () => {
+      const mockLogger = {
+        log: vi.fn(),
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+
+      const app = new Hono();
+      app.use(
+        "*",
+        wideLogger({
+          logger: mockLogger as Logger,
+          sampling: first(
+            dropIf((event) => event.path === "/health"),
+            rateBy("route", { "/users/:id": 1 }),
+          ),
+        }),
+      );
+      app.get("/health", (c) => c.text("ok"));
+      app.get("/users/:id", (c) => c.text("ok"));
+
+      await (await app.request("/health")).text();
+      await (await app.request("/users/1")).text();
+
+      expect(mockLogger.info).toHaveBeenCalledTimes(1);
+      const loggedEvent = JSON.parse(mockLogger.info.mock.calls[0][0]);
+      expect(loggedEvent.sample_reason).toBe("route:/users/:id");
+      expect(loggedEvent.sample_rate).toBe(1);
+    });
+
+    it("should explain default sampling decisions", async () => {
+      const mockLogger = {
+        log: vi.fn(),
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+
+      const app = new Hono();
+      app.use("*", wideLogger({ logger: mockLogger as Logger }));
+      app.get("/test", (c) => c.text("oops", 503));
+
+      await (await app.request("/test")).text();
+
+      const loggedEvent = JSON.parse(mockLogger.error.mock.calls[0][0]);
+      expect(loggedEvent.sample_reason).toBe("status:503");
+      expect(loggedEvent.sample_rate).toBe(1);
+    });
+  });
+
+  describe("deterministic sampling", () => {
+    it("should make the same decision in every service of a trace", async () => {
+      const services = [createMockLogger(), createMockLogger()];
+      const apps = services.map((logger) => {
+        const app = new Hono();
+        app.use(
+          "*",
+          wideLogger({
+            logger: logger as Logger,
+            sampleRate: 0.5,
+            sampleBy: "trace_id",
+          }),
+        );
+        app.get("/test", (c) => c.text("ok"));
+        return app;
+      });
+
+      for (let i = 0; i < 20; i++) {
+        const traceparent = `00-${i.toString(16).padStart(32, "a")}-00f067aa0ba902b7-01`;
+        for (const app of apps) {
+          await (
+            await app.request("/test", { headers: { traceparent } })
+          ).text();
+        }
+      }
+
+      const traces = services.map((logger) =>
+        logger.info.mock.calls.map(([line]) => JSON.parse(line).trace_id),
+      );
+      expect(traces[0].length).toBeGreaterThan(0);
+      expect(traces[0].length).toBeLessThan(20);
+      expect(traces[1]).toEqual(traces[0]);
     });
 
-    it("should set retriable to false by default", async () => {
+    it("should honor the upstream sampled flag", async () => {
+      const logger = createMockLogger();
       const app = new Hono();
-      app.use("*", wideLogger());
+      app.use(
+        "*",
+        wideLogger({
+          logger: logger as Logger,
+          sampleRate: 1.0,
+          honorUpstream: true,
+        }),
+      );
+      app.get("/test", (c) => c.text("ok"));
 
-      let event: any;
-      app.get("/test", (c) => {
-        const logger = c.get("wide-logger" as any) as WideLoggerContext;
-        logger.addError(new Error("Test error"));
-        event = logger.getEvent();
-        return c.text("ok");
+      const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+      await (
+        await app.request("/test", {
+          headers: { traceparent: `00-${traceId}-00f067aa0ba902b7-00` },
+        })
+      ).text();
+      expect(logger.info).not.toHaveBeenCalled();
+
+      await (
+        await app.request("/test", {
+          headers: { traceparent: `00-${traceId}-00f067aa0ba902b7-01` },
+        })
+      ).text();
+      const loggedEvent = JSON.parse(logger.info.mock.calls[0][0]);
+      expect(loggedEvent.sample_reason).toBe("upstream");
+    });
+
+    it("should flag new traces with the head decision for downstream services", async () => {
+      const [frontendLogger, backendLogger] = [
+        createMockLogger(),
+        createMockLogger(),
+      ];
+
+      const backend = new Hono();
+      backend.use(
+        "*",
+        wideLogger({
+          logger: backendLogger as Logger,
+          sampleRate: 0.5,
+          sampleBy: "trace_id",
+          honorUpstream: true,
+        }),
+      );
+      backend.get("/orders", (c) => c.text("ok"));
+
+      const frontend = new Hono();
+      frontend.use(
+        "*",
+        wideLogger({
+          logger: frontendLogger as Logger,
+          sampleRate: 0.5,
+          sampleBy: "trace_id",
+        }),
+      );
+      frontend.get("/checkout", async (c) => {
+        const headers = c.get("wide-logger").getTraceHeaders();
+        return c.text(
+          await (await backend.request("/orders", { headers })).text(),
+        );
       });
 
-      await app.request("/test");
-      expect(event.error.retriable).toBe(false);
+      for (let i = 0; i < 20; i++) {
+        await (await frontend.request("/checkout")).text();
+      }
+
+      const [roots, children] = [frontendLogger, backendLogger].map((logger) =>
+        logger.info.mock.calls.map(([line]) => JSON.parse(line)),
+      );
+      expect(roots.length).toBeLessThan(20);
+      expect(children.map((event) => event.trace_id)).toEqual(
+        roots.map((event) => event.trace_id),
+      );
+      expect(roots.every((event) => event.trace_flags === "01")).toBe(true);
     });
   });
 
-  describe("error handling", () => {
-    it("should catch errors and add to event", async () => {
+  describe("adaptive sampling", () => {
+    it("should record the effective rate on each event", async () => {
       const mockLogger = {
         log: vi.fn(),
         debug: vi.fn(),
@@ -429,46 +1944,410 @@ describe("wideLogger middleware", () => {
       };
 
       const app = new Hono();
-      app.use("*", wideLogger({ logger: mockLogger as Logger }));
+      app.use(
+        "*",
+        wideLogger({
+          logger: mockLogger as Logger,
+          sampling: createAdaptiveSampler({ targetEventsPerSecond: 100 }),
+        }),
+      );
+      app.get("/users/:id", (c) => c.text("ok"));
 
-      app.get("/error", () => {
-        throw new Error("Test error");
+      await (await app.request("/users/1")).text();
+
+      const loggedEvent = JSON.parse(mockLogger.info.mock.calls[0][0]);
+      expect(loggedEvent.sample_reason).toBe("adaptive:/users/:id 2xx");
+      expect(loggedEvent.sample_rate).toBe(1);
+    });
+  });
+
+  describe("runtime configuration", () => {
+    it("should swap sampling settings without recreating the middleware", async () => {
+      const logger = createMockLogger();
+      let settings: DynamicConfig = { sampleRate: 0 };
+      const middleware = wideLogger({
+        logger: logger as Logger,
+        sampleRate: 0,
+        config: { load: () => settings },
       });
+      const app = new Hono();
+      app.use("*", middleware);
+      app.get("/test", (c) => c.text("ok"));
 
-      await app.request("/error");
+      await (await app.request("/test")).text();
+      expect(logger.info).not.toHaveBeenCalled();
 
-      // Should have logged the event with error
-      expect(mockLogger.info).toHaveBeenCalled();
+      settings = { sampleRate: 1 };
+      await middleware.reloadConfig();
+      await (await app.request("/test")).text();
+      expect(logger.info).toHaveBeenCalledTimes(1);
+    });
+
+    it("should apply pushed status policies", async () => {
+      const logger = createMockLogger();
+      let push: (config: DynamicConfig) => void = () => {};
+      const app = new Hono();
+      app.use(
+        "*",
+        wideLogger({
+          logger: logger as Logger,
+          sampleRate: 0,
+          config: { subscribe: (update) => void (push = update) },
+        }),
+      );
+      app.get("/test", (c) => c.text("nope", 403));
+
+      await (await app.request("/test")).text();
+      expect(logger.info).not.toHaveBeenCalled();
+
+      push({ errorCode: 400 });
+      await (await app.request("/test")).text();
+      expect(logger.info).toHaveBeenCalledTimes(1);
+    });
+
+    it("should apply a pushed minimum level", async () => {
+      const logger = createMockLogger();
+      let push: (config: DynamicConfig) => void = () => {};
+      const app = new Hono();
+      app.use(
+        "*",
+        wideLogger({
+          logger: logger as Logger,
+          sampleRate: 1.0,
+          config: { subscribe: (update) => void (push = update) },
+        }),
+      );
+      app.get("/test", (c) => c.text("ok"));
+      app.get("/fail", (c) => c.text("down", 503));
+
+      push({ minLevel: "warn" });
+      await (await app.request("/test")).text();
+      await (await app.request("/fail")).text();
+      expect(logger.info).not.toHaveBeenCalled();
+      expect(logger.error).toHaveBeenCalledTimes(1);
+
+      push({});
+      await (await app.request("/test")).text();
+      expect(logger.info).toHaveBeenCalledTimes(1);
+    });
+
+    it("should report failed loads and keep logging", async () => {
+      const logger = createMockLogger();
+      const middleware = wideLogger({
+        logger: logger as Logger,
+        sampleRate: 1.0,
+        config: {
+          load: () => Promise.reject(new Error("KV unavailable")),
+        },
+      });
+      const app = new Hono();
+      app.use("*", middleware);
+      app.get("/test", (c) => c.text("ok"));
+
+      await (await app.request("/test")).text();
+      await middleware.reloadConfig();
+
+      expect(logger.info).toHaveBeenCalledTimes(1);
+      expect(logger.error).toHaveBeenCalledWith(
+        "[wide-logger] config load failed",
+        expect.any(Error),
+      );
+    });
+  });
+
+  describe("debug override", () => {
+    const secret = "on-call-secret";
+
+    it("should force-log requests with a valid debug token", async () => {
+      const mockLogger = createMockLogger();
+      const app = new Hono();
+      app.use(
+        "*",
+        wideLogger({
+          logger: mockLogger as Logger,
+          sampleRate: 0,
+          debug: { secret },
+        }),
+      );
+      app.get("/test", (c) => c.text("ok"));
+
+      const token = await signDebugToken(secret, Date.now() + 60_000);
+      const forged = await signDebugToken("guess", Date.now() + 60_000);
+
+      await (await app.request("/test")).text();
+      await (
+        await app.request("/test", {
+          headers: { "x-wide-logger-debug": forged },
+        })
+      ).text();
+      expect(mockLogger.info).not.toHaveBeenCalled();
+
+      await (
+        await app.request("/test", {
+          headers: { "x-wide-logger-debug": token },
+        })
+      ).text();
+      expect(mockLogger.info).toHaveBeenCalledTimes(1);
       const loggedEvent = JSON.parse(mockLogger.info.mock.calls[0][0]);
-      expect(loggedEvent.error).toBeDefined();
-      // Note: Hono catches errors internally, so we get a generic message
-      expect(loggedEvent.error.message).toBe("HTTP 500 error");
+      expect(loggedEvent.sample_reason).toBe("debug");
     });
 
-    it("should set status_code to 500 on error", async () => {
-      const mockLogger = {
-        log: vi.fn(),
+    it("should fall back to sampling when the token can't be checked", async () => {
+      const mockLogger = createMockLogger();
+      const app = new Hono();
+      app.use(
+        "*",
+        wideLogger({ logger: mockLogger, sampleRate: 0, debug: { secret } }),
+      );
+      app.get("/test", (c) => c.text("ok"));
+
+      const token = await signDebugToken(secret, Date.now() + 60_000);
+      const importKey = vi
+        .spyOn(crypto.subtle, "importKey")
+        .mockRejectedValueOnce(new Error("Zero-length key is not supported"));
+      try {
+        const res = await app.request("/test", {
+          headers: { "x-wide-logger-debug": token },
+        });
+        await res.text();
+
+        expect(res.status).toBe(200);
+        expect(mockLogger.info).not.toHaveBeenCalled();
+        expect(mockLogger.error).toHaveBeenCalledWith(
+          "[wide-logger] debug token check failed",
+          expect.any(Error),
+        );
+      } finally {
+        importKey.mockRestore();
+      }
+    });
+  });
+
+  describe("log levels", () => {
+    it("should route events to the method matching their outcome", async () => {
+      const logger = createMockLogger();
+      const app = new Hono();
+      app.use("*", wideLogger({ logger: logger as Logger, sampleRate: 1.0 }));
+      app.get("/ok", (c) => c.text("ok"));
+      app.get("/fail", (c) => c.text("oops", 500));
+      app.get("/handled", (c) => {
+        c.get("wide-logger").addError(new Error("retry failed"));
+        return c.text("ok");
+      });
+
+      await (await app.request("/ok")).text();
+      await (await app.request("/fail")).text();
+      await (await app.request("/handled")).text();
+
+      expect(logger.info).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(logger.info.mock.calls[0][0]).level).toBe("info");
+      expect(logger.error).toHaveBeenCalledTimes(2);
+      expect(JSON.parse(logger.error.mock.calls[0][0]).level).toBe("error");
+    });
+
+    it("should log slow requests at warn", async () => {
+      const logger = createMockLogger();
+      const app = new Hono();
+      app.use(
+        "*",
+        wideLogger({ logger: logger as Logger, slowThresholdMs: -1 }),
+      );
+      app.get("/test", (c) => c.text("ok"));
+
+      await (await app.request("/test")).text();
+
+      expect(logger.warn).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(logger.warn.mock.calls[0][0]).level).toBe("warn");
+    });
+
+    it("should honor an explicit level from setLevel", async () => {
+      const logger = createMockLogger();
+      const app = new Hono();
+      app.use("*", wideLogger({ logger: logger as Logger, sampleRate: 1.0 }));
+      app.get("/test", (c) => {
+        c.get("wide-logger").setLevel("debug");
+        return c.text("expected failure", 503);
+      });
+
+      await (await app.request("/test")).text();
+
+      expect(logger.error).not.toHaveBeenCalled();
+      expect(JSON.parse(logger.debug.mock.calls[0][0]).level).toBe("debug");
+    });
+  });
+
+  describe("structured loggers", () => {
+    it("should hand events to adapters as objects with a level", async () => {
+      const pino = {
         debug: vi.fn(),
         info: vi.fn(),
         warn: vi.fn(),
         error: vi.fn(),
       };
+      const app = new Hono();
+      app.use("*", wideLogger({ logger: pinoAdapter(pino), sampleRate: 1.0 }));
+      app.get("/ok", (c) => c.text("ok"));
+      app.get("/fail", (c) => c.text("oops", 500));
+
+      await (await app.request("/ok")).text();
+      await (await app.request("/fail")).text();
+
+      expect(pino.info).toHaveBeenCalledWith(
+        expect.objectContaining({ path: "/ok", status_code: 200 }),
+        "GET /ok 200",
+      );
+      expect(pino.error).toHaveBeenCalledWith(
+        expect.objectContaining({ path: "/fail", status_code: 500 }),
+        "GET /fail 500",
+      );
+    });
+  });
 
+  describe("plugins", () => {
+    it("should run lifecycle hooks around the handler", async () => {
+      const mockLogger = createMockLogger();
+      const calls: string[] = [];
+      const middleware = wideLogger<{ tenant: { id: string | undefined } }>({
+        logger: mockLogger,
+        sampleRate: 1.0,
+        plugins: [
+          {
+            name: "tenant",
+            onRequest: async (c, event) => {
+              calls.push("onRequest");
+              event.tenant = { id: c.req.header("x-tenant-id") };
+            },
+            onResponse: (_, event) => {
+              calls.push(`onResponse ${event.status_code}`);
+            },
+            beforeEmit: (event) => {
+              calls.push(`beforeEmit ${event.route}`);
+            },
+          },
+        ],
+      });
       const app = new Hono();
-      app.use("*", wideLogger({ logger: mockLogger as Logger }));
+      app.use("*", middleware);
+      app.get("/users/:id", (c) => {
+        calls.push("handler");
+        return c.text("ok");
+      });
 
-      app.get("/error", () => {
-        throw new Error("Test error");
+      await (
+        await app.request("/users/1", { headers: { "x-tenant-id": "acme" } })
+      ).text();
+      await middleware.flush();
+
+      expect(calls).toEqual([
+        "onRequest",
+        "handler",
+        "onResponse 200",
+        "beforeEmit /users/:id",
+      ]);
+      const logged = JSON.parse(mockLogger.info.mock.calls[0][0]);
+      expect(logged.tenant).toEqual({ id: "acme" });
+    });
+
+    it("should call onError with the error that failed the request", async () => {
+      const onError = vi.fn();
+      const app = new Hono();
+      app.use(
+        "*",
+        wideLogger({
+          logger: createMockLogger(),
+          plugins: [{ name: "alerts", onError }],
+        }),
+      );
+      app.get("/fail", () => {
+        throw new Error("boom");
       });
 
-      const res = await app.request("/error");
-      expect(res.status).toBe(500);
+      await (await app.request("/fail")).text();
 
-      const loggedEvent = JSON.parse(mockLogger.info.mock.calls[0][0]);
-      expect(loggedEvent.status_code).toBe(500);
+      expect(onError).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ status_code: 500 }),
+        expect.objectContaining({ message: "boom" }),
+      );
     });
 
-    it("should calculate duration_ms even on error", async () => {
+    it("should enrich before redaction in beforeEmit", async () => {
+      const mockLogger = createMockLogger();
+      const middleware = wideLogger<{ auth: { user: string; token: string } }>({
+        logger: mockLogger,
+        sampleRate: 1.0,
+        redact: { rules: ["auth.token"] },
+        plugins: [
+          {
+            name: "auth",
+            beforeEmit: async (event) => {
+              event.auth = { user: "u_1", token: "secret" };
+            },
+          },
+        ],
+      });
+      const app = new Hono();
+      app.use("*", middleware);
+      app.get("/test", (c) => c.text("ok"));
+
+      await (await app.request("/test")).text();
+      await middleware.flush();
+
+      const logged = JSON.parse(mockLogger.info.mock.calls[0][0]);
+      expect(logged.auth.user).toBe("u_1");
+      expect(logged.auth.token).not.toBe("secret");
+    });
+
+    it("should not fail requests when a plugin fails or runs over budget", async () => {
+      const mockLogger = createMockLogger();
+      const app = new Hono();
+      app.use(
+        "*",
+        wideLogger({
+          logger: mockLogger,
+          sampleRate: 1.0,
+          pluginTimeoutMs: 10,
+          plugins: [
+            {
+              name: "geo",
+              onRequest: () => {
+                throw new Error("geo down");
+              },
+            },
+            { name: "flags", onRequest: () => new Promise(() => {}) },
+          ],
+        }),
+      );
+      app.get("/test", (c) => c.text("ok"));
+
+      const res = await app.request("/test");
+      expect(res.status).toBe(200);
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        '[wide-logger] plugin "geo" onRequest failed',
+        expect.objectContaining({ message: "geo down" }),
+      );
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        '[wide-logger] plugin "flags" onRequest failed',
+        expect.objectContaining({
+          message: "onRequest exceeded its 10ms budget",
+        }),
+      );
+    });
+  });
+
+  describe("schema validation", () => {
+    const userIdSchema: StandardSchemaV1 = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: (value: any) =>
+          typeof value.user?.id === "number"
+            ? { issues: [{ message: "Expected string", path: ["user", "id"] }] }
+            : { value },
+      },
+    };
+
+    it("should drop invalid events and count failures", async () => {
       const mockLogger = {
         log: vi.fn(),
         debug: vi.fn(),
@@ -478,20 +2357,175 @@ describe("wideLogger middleware", () => {
       };
 
       const app = new Hono();
-      app.use("*", wideLogger({ logger: mockLogger as Logger }));
+      const middleware = wideLogger({
+        logger: mockLogger as Logger,
+        sampleRate: 1.0,
+        schema: userIdSchema,
+        schemaMode: "drop",
+      });
+      app.use("*", middleware);
+      app.get("/test", (c) => {
+        c.get("wide-logger").addContext("user", { id: 123 });
+        return c.text("ok");
+      });
 
-      app.get("/error", () => {
-        throw new Error("Test error");
+      const res = await app.request("/test");
+      await res.text();
+
+      expect(mockLogger.info).not.toHaveBeenCalled();
+      expect(middleware.stats.schemaFailures).toBe(1);
+    });
+
+    it("should annotate invalid events by default", async () => {
+      const mockLogger = {
+        log: vi.fn(),
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+
+      const app = new Hono();
+      app.use(
+        "*",
+        wideLogger({
+          logger: mockLogger as Logger,
+          sampleRate: 1.0,
+          schema: userIdSchema,
+        }),
+      );
+      app.get("/test", (c) => {
+        c.get("wide-logger").addContext("user", { id: 123 });
+        return c.text("ok");
       });
 
-      await app.request("/error");
+      const res = await app.request("/test");
+      await res.text();
 
       const loggedEvent = JSON.parse(mockLogger.info.mock.calls[0][0]);
-      expect(loggedEvent.duration_ms).toBeDefined();
-      expect(loggedEvent.duration_ms).toBeGreaterThanOrEqual(0);
+      expect(loggedEvent._schema_errors).toEqual([
+        { path: "user.id", message: "Expected string" },
+      ]);
     });
+  });
 
-    it("should still log event when error occurs", async () => {
+  describe("event delivery", () => {
+    it("should not block the response on storage writes", async () => {
+      let resolveWrite: () => void = () => {};
+      const storage: Storage = {
+        set: vi.fn(
+          () => new Promise<void>((resolve) => (resolveWrite = resolve)),
+        ),
+        get: vi.fn(),
+        delete: vi.fn(),
+      };
+
+      const app = new Hono();
+      const middleware = wideLogger({
+        storage,
+        sampleRate: 1.0,
+        logger: { ...console, info: vi.fn() } as Logger,
+      });
+      app.use("*", middleware);
+      app.get("/test", (c) => c.text("ok"));
+
+      // Would hang here if the write were awaited on the response path
+      const res = await app.request("/test");
+      await res.text();
+      expect(res.status).toBe(200);
+
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(storage.set).toHaveBeenCalledTimes(1);
+
+      resolveWrite();
+      await middleware.flush();
+    });
+
+    it("should persist queued events on flush", async () => {
+      const stored = new Map<string, any>();
+      const storage: Storage = {
+        set: async (key, value) => {
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          stored.set(key, value);
+        },
+        get: (key) => stored.get(key),
+        delete: (key) => stored.delete(key),
+      };
+
+      const app = new Hono();
+      const middleware = wideLogger({
+        storage,
+        sampleRate: 1.0,
+        logger: { ...console, info: vi.fn() } as Logger,
+      });
+      app.use("*", middleware);
+      app.get("/test", (c) => c.text("ok"));
+
+      await app
+        .request("/test", { headers: { "x-request-id": "req-1" } })
+        .then((res) => res.text());
+      await app
+        .request("/test", { headers: { "x-request-id": "req-2" } })
+        .then((res) => res.text());
+      await middleware.shutdown();
+
+      expect([...stored.keys()]).toEqual(["req-1", "req-2"]);
+    });
+
+    it("should make stored events queryable with the built-in store", async () => {
+      const store = createEventStore();
+      const app = new Hono();
+      const middleware = wideLogger({
+        storage: store,
+        sampleRate: 1.0,
+        logger: { ...console, info: vi.fn(), error: vi.fn() } as Logger,
+      });
+      app.use("*", middleware);
+      app.get("/ok", (c) => c.text("ok"));
+      app.get("/fail", (c) => c.text("oops", 503));
+
+      await (await app.request("/ok")).text();
+      await (await app.request("/fail")).text();
+      await middleware.flush();
+
+      const result = store.query({ where: ["status_code >= 500"] });
+      expect(result.total).toBe(1);
+      expect(result.events[0].path).toBe("/fail");
+    });
+
+    it("should hand storage writes to executionCtx.waitUntil when available", async () => {
+      const storage: Storage = { set: vi.fn(), get: vi.fn(), delete: vi.fn() };
+      const waitUntil = vi.fn();
+
+      const app = new Hono();
+      app.use(
+        "*",
+        wideLogger({
+          storage,
+          sampleRate: 1.0,
+          logger: { ...console, info: vi.fn() } as Logger,
+        }),
+      );
+      app.get("/test", (c) => c.text("ok"));
+
+      const res = await app.request(
+        "/test",
+        {},
+        {},
+        {
+          waitUntil,
+          passThroughOnException: vi.fn(),
+          props: {},
+        },
+      );
+      await res.text();
+
+      expect(waitUntil).toHaveBeenCalledTimes(1);
+      await waitUntil.mock.calls[0][0];
+      expect(storage.set).toHaveBeenCalledTimes(1);
+    });
+
+    it("should report storage failures to logger.error", async () => {
       const mockLogger = {
         log: vi.fn(),
         debug: vi.fn(),
@@ -499,17 +2533,52 @@ describe("wideLogger middleware", () => {
         warn: vi.fn(),
         error: vi.fn(),
       };
+      const storage: Storage = {
+        set: () => Promise.reject(new Error("storage down")),
+        get: vi.fn(),
+        delete: vi.fn(),
+      };
 
       const app = new Hono();
-      app.use("*", wideLogger({ logger: mockLogger as Logger }));
+      const middleware = wideLogger({
+        storage,
+        sampleRate: 1.0,
+        logger: mockLogger as Logger,
+      });
+      app.use("*", middleware);
+      app.get("/test", (c) => c.text("ok"));
 
-      app.get("/error", () => {
-        throw new Error("Test error");
+      const res = await app.request("/test");
+      await res.text();
+      await middleware.flush();
+
+      expect(res.status).toBe(200);
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+
+    it("should write sampled events to the transport", async () => {
+      const transport = {
+        write: vi.fn(),
+        flush: vi.fn(async () => {}),
+        close: vi.fn(async () => {}),
+      };
+
+      const app = new Hono();
+      const middleware = wideLogger({
+        transport,
+        sampleRate: 1.0,
+        logger: { ...console, info: vi.fn() } as Logger,
       });
+      app.use("*", middleware);
+      app.get("/test", (c) => c.text("ok"));
 
-      await app.request("/error");
+      const res = await app.request("/test");
+      await res.text();
+      expect(transport.write).toHaveBeenCalledTimes(1);
+      expect(transport.write.mock.calls[0][0].status_code).toBe(200);
 
-      expect(mockLogger.info).toHaveBeenCalled();
+      await middleware.shutdown();
+      expect(transport.close).toHaveBeenCalled();
     });
   });
 });
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createFileEventStore } from "../src/node";
+import type { WideEvent } from "../src/types";
+
+const makeEvent = (id: string, status_code = 200): WideEvent => ({
+  request_id: id,
+  timestamp: new Date().toISOString(),
+  method: "GET",
+  path: "/",
+  status_code,
+});
+
+describe("createFileEventStore", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "wide-logger-"));
+    path = join(dir, "nested", "events.jsonl");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should restore events after a restart", async () => {
+    const store = await createFileEventStore({ path });
+    await store.set("a", makeEvent("a", 500));
+    await store.set("b", makeEvent("b"));
+    await store.delete("b");
+
+    const restored = await createFileEventStore({ path });
+    expect(restored.size).toBe(1);
+    expect(
+      restored.query({ where: ["status_code >= 500"] }).events,
+    ).toHaveLength(1);
+    expect(restored.get("b")).toBeUndefined();
+  });
+
+  it("should skip a partially written last line", async () => {
+    const store = await createFileEventStore({ path });
+    await store.set("a", makeEvent("a"));
+    await writeFile(path, `${await readFile(path, "utf8")}{"key":"b","eve`);
+
+    const restored = await createFileEventStore({ path });
+    expect(restored.size).toBe(1);
+  });
+
+  it("should compact the file down to live events", async () => {
+    const store = await createFileEventStore({ path, maxEvents: 2 });
+    for (let i = 0; i < 1100; i++) {
+      await store.set(`req_${i}`, makeEvent(`req_${i}`));
+    }
+
+    const lines = (await readFile(path, "utf8")).trim().split("\n");
+    expect(lines.length).toBeLessThan(1100);
+
+    const restored = await createFileEventStore({ path, maxEvents: 2 });
+    expect(restored.entries().map(([key]) => key)).toEqual([
+      "req_1098",
+      "req_1099",
+    ]);
+  });
+
+  it("should empty the file on clear", async () => {
+    const store = await createFileEventStore({ path });
+    await store.set("a", makeEvent("a"));
+    await store.clear();
+
+    expect(await readFile(path, "utf8")).toBe("");
+    expect((await createFileEventStore({ path })).size).toBe(0);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from "vitest";
+import { createHookRunner, type WideLoggerPlugin } from "../src/plugins";
+import type { WideEvent } from "../src/types";
+
+const event = { request_id: "req_1" } as WideEvent;
+
+describe("createHookRunner", () => {
+  it("should run hooks in plugin order", async () => {
+    const calls: string[] = [];
+    const run = createHookRunner(
+      [
+        { name: "a", beforeEmit: () => void calls.push("a") },
+        { name: "b" },
+        {
+          name: "c",
+          beforeEmit: async () => {
+            await Promise.resolve();
+            calls.push("c");
+          },
+        },
+        { name: "d", beforeEmit: () => void calls.push("d") },
+      ],
+      100,
+      vi.fn(),
+    );
+
+    await run("beforeEmit", (plugin) => plugin.beforeEmit?.(event));
+    expect(calls).toEqual(["a", "c", "d"]);
+  });
+
+  it("should return undefined when every hook is sync", () => {
+    const run = createHookRunner(
+      [{ name: "sync", beforeEmit: () => {} }],
+      100,
+      vi.fn(),
+    );
+
+    expect(run("beforeEmit", (plugin) => plugin.beforeEmit?.(event))).toBe(
+      undefined,
+    );
+  });
+
+  it("should report a throwing hook and carry on", async () => {
+    const onError = vi.fn();
+    const after = vi.fn();
+    const failing: WideLoggerPlugin = {
+      name: "failing",
+      beforeEmit: () => {
+        throw new Error("boom");
+      },
+    };
+    const rejecting: WideLoggerPlugin = {
+      name: "rejecting",
+      beforeEmit: async () => {
+        throw new Error("async boom");
+      },
+    };
+    const run = createHookRunner(
+      [failing, rejecting, { name: "after", beforeEmit: after }],
+      100,
+      onError,
+    );
+
+    await run("beforeEmit", (plugin) => plugin.beforeEmit?.(event));
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: "boom" }),
+      failing,
+      "beforeEmit",
+    );
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: "async boom" }),
+      rejecting,
+      "beforeEmit",
+    );
+    expect(after).toHaveBeenCalled();
+  });
+
+  it("should stop waiting for a hook past its budget", async () => {
+    const onError = vi.fn();
+    const slow: WideLoggerPlugin = {
+      name: "slow",
+      timeoutMs: 10,
+      beforeEmit: () => new Promise(() => {}),
+    };
+    const run = createHookRunner([slow], 1000, onError);
+
+    const start = Date.now();
+    await run("beforeEmit", (plugin) => plugin.beforeEmit?.(event));
+    expect(Date.now() - start).toBeLessThan(500);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: "beforeEmit exceeded its 10ms budget",
+      }),
+      slow,
+      "beforeEmit",
+    );
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from "vitest";
+import { createEventQueue } from "../src/queue";
+
+describe("createEventQueue", () => {
+  it("should run tasks in the background", async () => {
+    const queue = createEventQueue(vi.fn());
+    const task = vi.fn();
+
+    queue.push(task);
+    expect(task).not.toHaveBeenCalled();
+
+    await queue.flush();
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it("should run tasks in order, one at a time", async () => {
+    const queue = createEventQueue(vi.fn());
+    const order: number[] = [];
+
+    queue.push(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      order.push(1);
+    });
+    queue.push(() => {
+      order.push(2);
+    });
+
+    await queue.flush();
+    expect(order).toEqual([1, 2]);
+    expect(queue.size).toBe(0);
+  });
+
+  it("should report failures without stopping the drain", async () => {
+    const onError = vi.fn();
+    const queue = createEventQueue(onError);
+    const task = vi.fn();
+
+    queue.push(() => {
+      throw new Error("boom");
+    });
+    queue.push(task);
+
+    await queue.flush();
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(task).toHaveBeenCalled();
+  });
+
+  it("should drain pending tasks on shutdown and reject new ones", async () => {
+    const onError = vi.fn();
+    const queue = createEventQueue(onError);
+    const task = vi.fn();
+
+    queue.push(task);
+    await queue.shutdown();
+    expect(task).toHaveBeenCalled();
+
+    const late = vi.fn();
+    queue.push(late);
+    await queue.flush();
+    expect(late).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+});
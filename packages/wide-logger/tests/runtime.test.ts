@@ -0,0 +1,51 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { Hono, type Context } from "hono";
+import { detectRuntime } from "../src/runtime";
+
+// Run detectRuntime against a real Hono context
+const detect = async (
+  init?: { request?: Request; env?: Record<string, unknown> },
+  environment?: string,
+) => {
+  const app = new Hono();
+  let info: ReturnType<typeof detectRuntime> | undefined;
+  app.get("/", (c: Context) => {
+    info = detectRuntime(c, environment);
+    return c.text("ok");
+  });
+  await app.request(init?.request ?? "/", undefined, init?.env);
+  return info!;
+};
+
+describe("detectRuntime", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should report the runtime key", async () => {
+    expect((await detect()).runtime).toBe("node");
+  });
+
+  it("should prefer an explicit environment", async () => {
+    expect((await detect(undefined, "staging")).environment).toBe("staging");
+  });
+
+  it("should read the environment from env vars", async () => {
+    vi.stubEnv("NODE_ENV", "");
+    vi.stubEnv("ENVIRONMENT", "preview");
+    expect((await detect()).environment).toBe("preview");
+  });
+
+  it("should read the region from host env vars", async () => {
+    vi.stubEnv("FLY_REGION", "ams");
+    expect((await detect()).region).toBe("ams");
+  });
+
+  it("should prefer the Cloudflare colo for region", async () => {
+    vi.stubEnv("FLY_REGION", "ams");
+    const request = new Request("http://localhost/");
+    Object.defineProperty(request, "cf", { value: { colo: "LHR" } });
+
+    expect((await detect({ request })).region).toBe("LHR");
+  });
+});
@@ -1,5 +1,20 @@
 import { describe, it, expect } from "vitest";
-import { defaultSampling } from "../src/sampling";
+import {
+  all,
+  any,
+  byStatus,
+  defaultRules,
+  defaultSampling,
+  dropIf,
+  first,
+  getStatusDecision,
+  hashToUnit,
+  keepIf,
+  keepWhen,
+  rate,
+  rateBy,
+  upstream,
+} from "../src/sampling";
 import type { WideEvent } from "../src/types";
 
 describe("defaultSampling", () => {
@@ -264,4 +279,348 @@ describe("defaultSampling", () => {
       expect(trueCount).toBe(100);
     });
   });
+
+  describe("status policy", () => {
+    const event = (status_code: number): WideEvent => ({
+      request_id: "test",
+      timestamp: "2024-01-01",
+      method: "GET",
+      path: "/test",
+      status_code,
+    });
+    const neverSample = { slowThresholdMs: 2000, sampleRate: 0 };
+
+    it("should always log 4xx when errorCode is 400", () => {
+      expect(
+        defaultSampling(event(404), { ...neverSample, errorCode: 400 }),
+      ).toBe(true);
+      expect(
+        defaultSampling(event(500), { ...neverSample, errorCode: 400 }),
+      ).toBe(true);
+    });
+
+    it("should only always log 5xx when errorCode is 500", () => {
+      expect(
+        defaultSampling(event(404), { ...neverSample, errorCode: 500 }),
+      ).toBe(false);
+      expect(
+        defaultSampling(event(503), { ...neverSample, errorCode: 500 }),
+      ).toBe(true);
+    });
+
+    it("should apply per-status overrides", () => {
+      const options = {
+        ...neverSample,
+        statusPolicy: {
+          overrides: { 401: "keep", 429: "keep", 404: "drop" } as const,
+        },
+      };
+
+      expect(defaultSampling(event(401), options)).toBe(true);
+      expect(defaultSampling(event(429), options)).toBe(true);
+      expect(defaultSampling(event(403), options)).toBe(false);
+    });
+
+    it("should let drop overrides win over other keep rules", () => {
+      const options = {
+        slowThresholdMs: 2000,
+        sampleRate: 1.0,
+        errorCode: 400 as const,
+        statusPolicy: { overrides: { 404: "drop" as const } },
+      };
+
+      expect(
+        defaultSampling(
+          {
+            ...event(404),
+            duration_ms: 5000,
+            error: { type: "HTTPException", message: "Not Found" },
+          },
+          options,
+        ),
+      ).toBe(false);
+    });
+
+    it("should let alwaysLog replace errorCode", () => {
+      const options = {
+        ...neverSample,
+        errorCode: 400 as const,
+        statusPolicy: { alwaysLog: ["3xx" as const] },
+      };
+
+      expect(defaultSampling(event(302), options)).toBe(true);
+      expect(defaultSampling(event(404), options)).toBe(false);
+      expect(defaultSampling(event(500), options)).toBe(false);
+    });
+  });
+});
+
+describe("getStatusDecision", () => {
+  it("should have no opinion without a status", () => {
+    expect(getStatusDecision(undefined, { errorCode: 400 })).toBeUndefined();
+  });
+
+  it("should keep 5xx by default", () => {
+    expect(getStatusDecision(502, {})).toBe("keep");
+    expect(getStatusDecision(404, {})).toBeUndefined();
+    expect(getStatusDecision(200, {})).toBeUndefined();
+  });
+
+  it("should return override verdicts", () => {
+    const options = { statusPolicy: { overrides: { 404: "drop" as const } } };
+    expect(getStatusDecision(404, options)).toBe("drop");
+  });
+});
+
+describe("sampling rules", () => {
+  const base: WideEvent = {
+    request_id: "test",
+    timestamp: "2024-01-01",
+    method: "GET",
+    path: "/test",
+    status_code: 200,
+  };
+  const context = { status: undefined };
+
+  it("should keep or drop on predicates, with no opinion otherwise", () => {
+    const keep = keepIf((event) => event.method === "POST", "writes");
+    const drop = dropIf((event) => event.path === "/health");
+
+    expect(keep({ ...base, method: "POST" }, context)).toEqual({
+      keep: true,
+      reason: "writes",
+      rate: 1,
+    });
+    expect(keep(base, context)).toBeUndefined();
+    expect(drop({ ...base, path: "/health" }, context)?.keep).toBe(false);
+    expect(drop(base, context)).toBeUndefined();
+  });
+
+  it("should keep on values at a path", () => {
+    const rule = keepWhen("user.tier", (tier) => tier === "enterprise");
+
+    expect(rule({ ...base, user: { tier: "enterprise" } }, context)).toEqual({
+      keep: true,
+      reason: "keep_when:user.tier",
+      rate: 1,
+    });
+    expect(rule(base, context)).toBeUndefined();
+  });
+
+  it("should sample at a rate", () => {
+    expect(rate(1)(base, context)).toEqual({
+      keep: true,
+      reason: "rate",
+      rate: 1,
+    });
+    expect(rate(0)(base, context)?.keep).toBe(false);
+  });
+
+  it("should pick rates by route, falling back to '*'", () => {
+    const rule = rateBy("route", { "/health": 0, "*": 1 });
+
+    expect(rule({ ...base, route: "/health" }, context)).toEqual({
+      keep: false,
+      reason: "route:/health",
+      rate: 0,
+    });
+    expect(rule({ ...base, route: "/users/:id" }, context)).toEqual({
+      keep: true,
+      reason: "route:*",
+      rate: 1,
+    });
+  });
+
+  it("should pick rates by exact status before status class", () => {
+    const rule = rateBy("status", { "404": 0, "4xx": 1 });
+
+    expect(rule({ ...base, status_code: 404 }, context)?.reason).toBe(
+      "status:404",
+    );
+    expect(rule({ ...base, status_code: 403 }, context)?.reason).toBe(
+      "status:4xx",
+    );
+    expect(rule(base, context)).toBeUndefined();
+  });
+
+  it("should pick rates by method", () => {
+    const rule = rateBy("method", { POST: 1 });
+
+    expect(rule({ ...base, method: "POST" }, context)?.keep).toBe(true);
+    expect(rule(base, context)).toBeUndefined();
+  });
+
+  it("should follow the status policy verdict", () => {
+    const rule = byStatus();
+
+    expect(rule({ ...base, status_code: 503 }, { status: "keep" })).toEqual({
+      keep: true,
+      reason: "status:503",
+      rate: 1,
+    });
+    expect(rule(base, { status: "drop" })?.keep).toBe(false);
+    expect(rule(base, context)).toBeUndefined();
+  });
+
+  it("should let the first rule with an opinion decide", () => {
+    const rule = first(
+      keepIf(() => false),
+      dropIf(() => true, "first"),
+      keepIf(() => true, "second"),
+    );
+
+    expect(rule(base, context)?.reason).toBe("first");
+    expect(first()(base, context)).toBeUndefined();
+  });
+
+  it("should keep when any rule keeps", () => {
+    expect(
+      any(
+        dropIf(() => true),
+        keepIf(() => true, "kept"),
+      )(base, context)?.reason,
+    ).toBe("kept");
+    expect(any(dropIf(() => true, "dropped"))(base, context)?.reason).toBe(
+      "dropped",
+    );
+    expect(any(keepIf(() => false))(base, context)).toBeUndefined();
+  });
+
+  it("should keep only when all rules keep", () => {
+    expect(
+      all(
+        keepIf(() => true, "a"),
+        rate(1, "b"),
+      )(base, context),
+    ).toEqual({
+      keep: true,
+      reason: "a+b",
+      rate: 1,
+    });
+    expect(
+      all(
+        keepIf(() => true),
+        dropIf(() => true, "no"),
+      )(base, context)?.reason,
+    ).toBe("no");
+    expect(
+      all(
+        keepIf(() => true),
+        keepIf(() => false),
+      )(base, context),
+    ).toBeUndefined();
+  });
+
+  it("should explain default decisions", () => {
+    const rule = defaultRules({ slowThresholdMs: 2000, sampleRate: 0 });
+
+    expect(rule({ ...base, duration_ms: 3000 }, context)?.reason).toBe("slow");
+    expect(rule({ ...base, user: { tier: "premium" } }, context)?.reason).toBe(
+      "vip",
+    );
+    expect(rule(base, context)).toEqual({
+      keep: false,
+      reason: "rate",
+      rate: 0,
+    });
+  });
+});
+
+describe("deterministic sampling", () => {
+  const base: WideEvent = {
+    request_id: "test",
+    timestamp: "2024-01-01",
+    method: "GET",
+    path: "/test",
+    status_code: 200,
+  };
+  const context = { status: undefined };
+  const traceIds = Array.from({ length: 1000 }, (_, i) =>
+    i.toString(16).padStart(32, "a"),
+  );
+
+  it("should map IDs to a stable number in [0, 1)", () => {
+    const value = hashToUnit("4bf92f3577b34da6a3ce929d0e0e4736");
+
+    expect(value).toBeGreaterThanOrEqual(0);
+    expect(value).toBeLessThan(1);
+    expect(hashToUnit("4bf92f3577b34da6a3ce929d0e0e4736")).toBe(value);
+    expect(hashToUnit("another-id")).not.toBe(value);
+  });
+
+  it("should make the same decision for the same trace", () => {
+    const rule = rate(0.5, "rate", "trace_id");
+
+    for (const trace_id of traceIds.slice(0, 50)) {
+      const event = { ...base, trace_id };
+      const first = rule(event, context)?.keep;
+      expect(rule({ ...event, request_id: "other" }, context)?.keep).toBe(
+        first,
+      );
+    }
+  });
+
+  it("should keep roughly the sample rate of traces", () => {
+    const rule = rate(0.25, "rate", "trace_id");
+    const kept = traceIds.filter(
+      (trace_id) => rule({ ...base, trace_id }, context)?.keep,
+    ).length;
+
+    expect(kept).toBeGreaterThan(180);
+    expect(kept).toBeLessThan(320);
+  });
+
+  it("should keep every trace a lower rate keeps", () => {
+    const low = rate(0.1, "rate", "trace_id");
+    const high = rate(0.5, "rate", "trace_id");
+
+    for (const trace_id of traceIds) {
+      const event = { ...base, trace_id };
+      if (low(event, context)?.keep) {
+        expect(high(event, context)?.keep).toBe(true);
+      }
+    }
+  });
+
+  it("should hash request IDs", () => {
+    const rule = rateBy("route", { "*": 0.5 }, "request_id");
+    const event = { ...base, request_id: "req-123" };
+
+    expect(rule(event, context)?.keep).toBe(hashToUnit("req-123") < 0.5);
+  });
+
+  it("should follow the upstream sampled flag", () => {
+    const rule = upstream();
+    const joined = { ...base, parent_span_id: "00f067aa0ba902b7" };
+
+    expect(rule({ ...joined, trace_flags: "01" }, context)).toEqual({
+      keep: true,
+      reason: "upstream",
+      rate: 1,
+    });
+    expect(rule({ ...joined, trace_flags: "00" }, context)?.keep).toBe(false);
+    // Not joined to an upstream trace
+    expect(rule({ ...base, trace_flags: "01" }, context)).toBeUndefined();
+  });
+
+  it("should only honor upstream in defaultSampling when asked", () => {
+    const event: WideEvent = {
+      ...base,
+      parent_span_id: "00f067aa0ba902b7",
+      trace_flags: "01",
+    };
+    const options = { slowThresholdMs: 2000, sampleRate: 0 };
+
+    expect(defaultSampling(event, options)).toBe(false);
+    expect(defaultSampling(event, { ...options, honorUpstream: true })).toBe(
+      true,
+    );
+    // Always-keep rules still win over an unsampled caller
+    expect(
+      defaultSampling(
+        { ...event, trace_flags: "00", duration_ms: 5000 },
+        { ...options, honorUpstream: true },
+      ),
+    ).toBe(true);
+  });
 });
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { validateEvent, type StandardSchemaV1 } from "../src/schema";
+import type { WideEvent } from "../src/types";
+
+// Requires user.id to be a string; coerces numeric IDs in its output
+const userIdSchema: StandardSchemaV1 = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value) => {
+      const event = value as WideEvent;
+      const id = event.user?.id;
+      if (id === undefined || typeof id === "string") return { value: event };
+      if (typeof id === "number") {
+        return { value: { ...event, user: { ...event.user, id: String(id) } } };
+      }
+      return {
+        issues: [{ message: "Expected string", path: ["user", { key: "id" }] }],
+      };
+    },
+  },
+};
+
+const asyncSchema: StandardSchemaV1 = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: async () => ({ issues: [{ message: "Always fails" }] }),
+  },
+};
+
+const baseEvent: WideEvent = {
+  request_id: "test",
+  timestamp: "2024-01-01",
+  method: "GET",
+  path: "/test",
+};
+
+describe("validateEvent", () => {
+  it("should pass valid events through unchanged", () => {
+    const event = { ...baseEvent, user: { id: "123" } };
+    expect(validateEvent(userIdSchema, "annotate", event)).toEqual({
+      event,
+      valid: true,
+    });
+  });
+
+  it("should drop invalid events in drop mode", () => {
+    const event = { ...baseEvent, user: { id: true } };
+    expect(validateEvent(userIdSchema, "drop", event)).toEqual({
+      event: undefined,
+      valid: false,
+    });
+  });
+
+  it("should annotate invalid events with _schema_errors", () => {
+    const event = { ...baseEvent, user: { id: true } };
+    const outcome = validateEvent(userIdSchema, "annotate", event);
+
+    expect(outcome).toMatchObject({ valid: false });
+    expect((outcome as any).event.user.id).toBe(true);
+    expect((outcome as any).event._schema_errors).toEqual([
+      { path: "user.id", message: "Expected string" },
+    ]);
+  });
+
+  it("should emit the schema output in coerce mode", () => {
+    const event = { ...baseEvent, user: { id: 123 } };
+    const outcome = validateEvent(userIdSchema, "coerce", event);
+
+    expect((outcome as any).event.user.id).toBe("123");
+  });
+
+  it("should strip offending fields in coerce mode", () => {
+    const event = { ...baseEvent, user: { id: true, tier: "premium" } };
+    const outcome = validateEvent(userIdSchema, "coerce", event);
+
+    expect((outcome as any).event.user).toEqual({ tier: "premium" });
+    expect((outcome as any).event._schema_errors).toHaveLength(1);
+    // The input is left untouched
+    expect(event.user.id).toBe(true);
+  });
+
+  it("should support async validators", async () => {
+    const outcome = validateEvent(asyncSchema, "annotate", baseEvent);
+
+    expect(outcome).toBeInstanceOf(Promise);
+    expect((await outcome).event?._schema_errors).toEqual([
+      { path: "", message: "Always fails" },
+    ]);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from "vitest";
+import { countBytes, parseContentLength } from "../src/size";
+
+const encoder = new TextEncoder();
+
+const streamOf = (...chunks: string[]) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+
+describe("parseContentLength", () => {
+  it("should parse valid lengths", () => {
+    expect(parseContentLength("0")).toBe(0);
+    expect(parseContentLength("1024")).toBe(1024);
+  });
+
+  it("should ignore missing or invalid values", () => {
+    expect(parseContentLength(null)).toBeUndefined();
+    expect(parseContentLength(undefined)).toBeUndefined();
+    expect(parseContentLength("")).toBeUndefined();
+    expect(parseContentLength("-1")).toBeUndefined();
+    expect(parseContentLength("abc")).toBeUndefined();
+    expect(parseContentLength("1.5")).toBeUndefined();
+  });
+});
+
+describe("countBytes", () => {
+  it("should pass chunks through unchanged and report the total", async () => {
+    const onDone = vi.fn();
+    const counted = countBytes(streamOf("abc", "défg"), onDone);
+
+    expect(await new Response(counted).text()).toBe("abcdéfg");
+    expect(onDone).toHaveBeenCalledWith(8);
+  });
+
+  it("should report before the consumer sees the end of the stream", async () => {
+    const onDone = vi.fn();
+    const reader = countBytes(streamOf("abc"), onDone).getReader();
+
+    await reader.read();
+    const { done } = await reader.read();
+
+    expect(done).toBe(true);
+    expect(onDone).toHaveBeenCalledTimes(1);
+  });
+
+  it("should report the bytes read so far when cancelled", async () => {
+    const onDone = vi.fn();
+    const source = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode("abcd"));
+      },
+    });
+    const reader = countBytes(source, onDone).getReader();
+
+    await reader.read();
+    await reader.cancel();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(onDone).toHaveBeenCalledTimes(1);
+    expect(onDone).toHaveBeenCalledWith(4);
+  });
+});
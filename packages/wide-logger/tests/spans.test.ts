@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { createSpanRecorder } from "../src/spans";
+import type { WideEvent } from "../src/types";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("createSpanRecorder", () => {
+  it("should record a span with offset, duration and attributes", async () => {
+    const event: Partial<WideEvent> = {};
+    const { startSpan } = createSpanRecorder(event, 100);
+
+    await sleep(5);
+    const span = startSpan("db.query", { table: "users" });
+    await sleep(10);
+    span.setAttributes({ rows: 3 });
+    span.end();
+
+    expect(event.spans).toHaveLength(1);
+    const [record] = event.spans!;
+    expect(record.name).toBe("db.query");
+    expect(record.status).toBe("ok");
+    expect(record.start_offset_ms).toBeGreaterThanOrEqual(4);
+    expect(record.duration_ms).toBeGreaterThanOrEqual(9);
+    expect(record.attributes).toEqual({ table: "users", rows: 3 });
+  });
+
+  it("should ignore repeated end calls", () => {
+    const event: Partial<WideEvent> = {};
+    const span = createSpanRecorder(event, 100).startSpan("cache.get");
+
+    span.end();
+    span.end("error");
+
+    expect(event.spans).toHaveLength(1);
+    expect(event.spans![0].status).toBe("ok");
+  });
+
+  it("should roll up spans by name prefix", () => {
+    const event: Partial<WideEvent> = {};
+    const { startSpan } = createSpanRecorder(event, 100);
+
+    startSpan("db.query").end();
+    startSpan("db.insert").end("error");
+    startSpan("http.fetch").end();
+
+    expect(event.span_rollups?.db).toMatchObject({
+      count: 2,
+      error_count: 1,
+    });
+    expect(event.span_rollups?.http?.count).toBe(1);
+    expect(event.span_rollups?.db?.total_ms).toBeGreaterThanOrEqual(0);
+  });
+
+  it("should cap recorded spans but keep rolling them up", () => {
+    const event: Partial<WideEvent> = {};
+    const { startSpan } = createSpanRecorder(event, 2);
+
+    for (let i = 0; i < 5; i++) startSpan("db.query").end();
+
+    expect(event.spans).toHaveLength(2);
+    expect(event.spans_dropped).toBe(3);
+    expect(event.span_rollups?.db?.count).toBe(5);
+  });
+
+  describe("time", () => {
+    it("should return the result and record an ok span", async () => {
+      const event: Partial<WideEvent> = {};
+      const { time } = createSpanRecorder(event, 100);
+
+      const result = await time("db.query", async (span) => {
+        span.setAttributes({ rows: 1 });
+        return "value";
+      });
+
+      expect(result).toBe("value");
+      expect(event.spans![0]).toMatchObject({
+        name: "db.query",
+        status: "ok",
+        attributes: { rows: 1 },
+      });
+    });
+
+    it("should record an error span and rethrow", async () => {
+      const event: Partial<WideEvent> = {};
+      const { time } = createSpanRecorder(event, 100);
+
+      await expect(
+        time("http.fetch", () => {
+          throw new Error("upstream down");
+        }),
+      ).rejects.toThrow("upstream down");
+
+      expect(event.spans![0].status).toBe("error");
+      expect(event.span_rollups?.http?.error_count).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect } from "vitest";
+import { createEventStore, parseFilter } from "../src/store";
+import type { WideEvent } from "../src/types";
+
+const makeEvent = (
+  id: string,
+  fields: Partial<WideEvent> & Record<string, unknown> = {},
+): WideEvent => ({
+  request_id: id,
+  timestamp: "2024-01-15T10:00:00.000Z",
+  method: "GET",
+  path: "/",
+  ...fields,
+});
+
+describe("parseFilter", () => {
+  it("should parse field, operator and value", () => {
+    expect(parseFilter("status_code >= 500")).toEqual({
+      field: "status_code",
+      op: ">=",
+      value: 500,
+    });
+    expect(parseFilter("user.id=u_1")).toEqual({
+      field: "user.id",
+      op: "=",
+      value: "u_1",
+    });
+    expect(parseFilter('method != "GET"')).toEqual({
+      field: "method",
+      op: "!=",
+      value: "GET",
+    });
+    expect(parseFilter("error = null").value).toBeNull();
+  });
+
+  it("should throw on malformed expressions", () => {
+    expect(() => parseFilter("status_code")).toThrow("invalid filter");
+  });
+});
+
+describe("createEventStore", () => {
+  it("should implement Storage", () => {
+    const store = createEventStore();
+
+    store.set("req_1", makeEvent("req_1"));
+    expect(store.get("req_1")?.request_id).toBe("req_1");
+    expect(store.size).toBe(1);
+
+    store.delete("req_1");
+    expect(store.get("req_1")).toBeUndefined();
+  });
+
+  it("should evict the oldest events past maxEvents", () => {
+    const store = createEventStore({ maxEvents: 2 });
+
+    store.set("a", makeEvent("a"));
+    store.set("b", makeEvent("b"));
+    store.set("c", makeEvent("c"));
+
+    expect(store.entries().map(([key]) => key)).toEqual(["b", "c"]);
+  });
+
+  it("should drop events older than maxAgeMs", () => {
+    const store = createEventStore({ maxAgeMs: 60_000 });
+    const now = Date.now();
+
+    store.set(
+      "old",
+      makeEvent("old", { timestamp: new Date(now - 120_000).toISOString() }),
+    );
+    store.set(
+      "new",
+      makeEvent("new", { timestamp: new Date(now).toISOString() }),
+    );
+
+    expect(store.query().events.map((e) => e.request_id)).toEqual(["new"]);
+  });
+
+  describe("query", () => {
+    const store = createEventStore();
+    store.set(
+      "a",
+      makeEvent("a", {
+        timestamp: "2024-01-15T10:00:00.000Z",
+        status_code: 200,
+        duration_ms: 30,
+        user: { id: "123", tier: "free" },
+      }),
+    );
+    store.set(
+      "b",
+      makeEvent("b", {
+        timestamp: "2024-01-15T10:01:00.000Z",
+        status_code: 503,
+        duration_ms: 900,
+        user: { id: "456", tier: "premium" },
+      }),
+    );
+    store.set(
+      "c",
+      makeEvent("c", {
+        timestamp: "2024-01-15T10:02:00.000Z",
+        status_code: 500,
+        duration_ms: 120,
+      }),
+    );
+
+    const ids = (result: { events: WideEvent[] }) =>
+      result.events.map((event) => event.request_id);
+
+    it("should return the newest events first by default", () => {
+      expect(ids(store.query())).toEqual(["c", "b", "a"]);
+    });
+
+    it("should filter by range and by nested field", () => {
+      expect(ids(store.query({ where: ["status_code >= 500"] }))).toEqual([
+        "c",
+        "b",
+      ]);
+      expect(
+        ids(
+          store.query({
+            where: [{ field: "user.tier", op: "=", value: "premium" }],
+          }),
+        ),
+      ).toEqual(["b"]);
+    });
+
+    it("should compare equality loosely", () => {
+      expect(ids(store.query({ where: ["user.id = 123"] }))).toEqual(["a"]);
+    });
+
+    it("should match missing fields only against null", () => {
+      expect(ids(store.query({ where: ["user = null"] }))).toEqual(["c"]);
+      expect(ids(store.query({ where: ["user.id != 123"] }))).toEqual([
+        "c",
+        "b",
+      ]);
+    });
+
+    it("should filter by time window", () => {
+      expect(
+        ids(
+          store.query({
+            since: "2024-01-15T10:01:00.000Z",
+            until: new Date("2024-01-15T10:02:00.000Z"),
+          }),
+        ),
+      ).toEqual(["b"]);
+    });
+
+    it("should sort by any field", () => {
+      expect(ids(store.query({ sort: "-duration_ms" }))).toEqual([
+        "b",
+        "c",
+        "a",
+      ]);
+      expect(
+        ids(store.query({ sort: { field: "duration_ms", order: "asc" } })),
+      ).toEqual(["a", "c", "b"]);
+    });
+
+    it("should sort events missing the field last", () => {
+      expect(ids(store.query({ sort: "user.id" }))).toEqual(["a", "b", "c"]);
+      expect(ids(store.query({ sort: "-user.id" }))).toEqual(["b", "a", "c"]);
+    });
+
+    it("should paginate with limit and offset", () => {
+      const first = store.query({ limit: 2 });
+      expect(ids(first)).toEqual(["c", "b"]);
+      expect(first.total).toBe(3);
+      expect(first.nextOffset).toBe(2);
+
+      const second = store.query({ limit: 2, offset: first.nextOffset });
+      expect(ids(second)).toEqual(["a"]);
+      expect(second.nextOffset).toBeUndefined();
+    });
+  });
+});
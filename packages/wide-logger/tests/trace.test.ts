@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatTraceparent,
+  generateSpanId,
+  generateTraceId,
+  isSampled,
+  parseTraceparent,
+} from "../src/trace";
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const PARENT_ID = "00f067aa0ba902b7";
+
+describe("parseTraceparent", () => {
+  it("should parse a valid header", () => {
+    expect(parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}-01`)).toEqual({
+      version: "00",
+      traceId: TRACE_ID,
+      parentId: PARENT_ID,
+      flags: "01",
+    });
+  });
+
+  it("should normalize case and whitespace", () => {
+    const parsed = parseTraceparent(
+      ` 00-${TRACE_ID.toUpperCase()}-${PARENT_ID}-01 `,
+    );
+    expect(parsed?.traceId).toBe(TRACE_ID);
+  });
+
+  it("should reject malformed headers", () => {
+    expect(parseTraceparent(undefined)).toBeUndefined();
+    expect(parseTraceparent("")).toBeUndefined();
+    expect(parseTraceparent("garbage")).toBeUndefined();
+    expect(parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}`)).toBeUndefined();
+    expect(parseTraceparent(`00-${TRACE_ID}-xyz-01`)).toBeUndefined();
+  });
+
+  it("should reject all-zero IDs and the forbidden version", () => {
+    expect(
+      parseTraceparent(`00-${"0".repeat(32)}-${PARENT_ID}-01`),
+    ).toBeUndefined();
+    expect(
+      parseTraceparent(`00-${TRACE_ID}-${"0".repeat(16)}-01`),
+    ).toBeUndefined();
+    expect(parseTraceparent(`ff-${TRACE_ID}-${PARENT_ID}-01`)).toBeUndefined();
+  });
+
+  it("should accept future versions with extra fields", () => {
+    expect(
+      parseTraceparent(`01-${TRACE_ID}-${PARENT_ID}-01-extra`)?.traceId,
+    ).toBe(TRACE_ID);
+    expect(
+      parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}-01-extra`),
+    ).toBeUndefined();
+  });
+});
+
+describe("trace ID generation", () => {
+  it("should generate hex IDs of the right length", () => {
+    expect(generateTraceId()).toMatch(/^[0-9a-f]{32}$/);
+    expect(generateSpanId()).toMatch(/^[0-9a-f]{16}$/);
+    expect(generateTraceId()).not.toBe(generateTraceId());
+  });
+
+  it("should round-trip through formatTraceparent", () => {
+    const header = formatTraceparent(TRACE_ID, PARENT_ID, "01");
+    expect(header).toBe(`00-${TRACE_ID}-${PARENT_ID}-01`);
+    expect(parseTraceparent(header)?.parentId).toBe(PARENT_ID);
+  });
+});
+
+describe("isSampled", () => {
+  it("should read the sampled bit", () => {
+    expect(isSampled("01")).toBe(true);
+    expect(isSampled("03")).toBe(true);
+    expect(isSampled("00")).toBe(false);
+    expect(isSampled("02")).toBe(false);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createBatchTransport } from "../src/transport";
+import type { WideEvent } from "../src/types";
+
+const makeEvent = (id: string): WideEvent => ({
+  request_id: id,
+  timestamp: "2024-01-01",
+  method: "GET",
+  path: "/test",
+});
+
+describe("createBatchTransport", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should flush when maxBatchSize is reached", async () => {
+    const send = vi.fn();
+    const transport = createBatchTransport({ send, maxBatchSize: 2 });
+
+    transport.write(makeEvent("1"));
+    expect(send).not.toHaveBeenCalled();
+
+    transport.write(makeEvent("2"));
+    await transport.flush();
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send.mock.calls[0][0].map((e: WideEvent) => e.request_id)).toEqual([
+      "1",
+      "2",
+    ]);
+  });
+
+  it("should split batches by maxBatchBytes", async () => {
+    const send = vi.fn();
+    const size = JSON.stringify(makeEvent("1")).length;
+    const transport = createBatchTransport({
+      send,
+      maxBatchSize: 100,
+      maxBatchBytes: size * 2,
+      flushIntervalMs: 60_000,
+    });
+
+    transport.write(makeEvent("1"));
+    transport.write(makeEvent("2"));
+    transport.write(makeEvent("3"));
+    await transport.flush();
+
+    expect(send.mock.calls.map((call) => call[0].length)).toEqual([2, 1]);
+  });
+
+  it("should flush after flushIntervalMs", async () => {
+    vi.useFakeTimers();
+    const send = vi.fn();
+    const transport = createBatchTransport({ send, flushIntervalMs: 1000 });
+
+    transport.write(makeEvent("1"));
+    await vi.advanceTimersByTimeAsync(999);
+    expect(send).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it("should retry failed batches with backoff", async () => {
+    const send = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("unavailable"))
+      .mockResolvedValueOnce(undefined);
+    const transport = createBatchTransport({ send, retryBaseDelayMs: 1 });
+
+    transport.write(makeEvent("1"));
+    await transport.flush();
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(transport.stats.sent).toBe(1);
+    expect(transport.stats.failed).toBe(0);
+  });
+
+  it("should give up after maxRetries and report the batch", async () => {
+    const send = vi.fn().mockRejectedValue(new Error("unavailable"));
+    const onError = vi.fn();
+    const transport = createBatchTransport({
+      send,
+      onError,
+      maxRetries: 2,
+      retryBaseDelayMs: 1,
+    });
+
+    transport.write(makeEvent("1"));
+    await transport.flush();
+
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(transport.stats.failed).toBe(1);
+  });
+
+  it("should drop and count events when the buffer is full", async () => {
+    const send = vi.fn();
+    const transport = createBatchTransport({
+      send,
+      maxBufferSize: 2,
+      maxBatchSize: 10,
+      flushIntervalMs: 60_000,
+    });
+
+    transport.write(makeEvent("1"));
+    transport.write(makeEvent("2"));
+    transport.write(makeEvent("3"));
+
+    expect(transport.stats.dropped).toBe(1);
+    expect(transport.stats.buffered).toBe(2);
+
+    await transport.close();
+    expect(transport.stats.sent).toBe(2);
+  });
+
+  it("should drop writes after close", async () => {
+    const send = vi.fn();
+    const transport = createBatchTransport({ send });
+
+    await transport.close();
+    transport.write(makeEvent("1"));
+
+    expect(transport.stats.dropped).toBe(1);
+    expect(send).not.toHaveBeenCalled();
+  });
+});
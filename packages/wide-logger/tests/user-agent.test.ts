@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import { createUserAgentParser, parseUserAgent } from "../src/user-agent";
+
+const agents = {
+  chromeWindows:
+    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36",
+  edge: "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 Edg/124.0.2478.51",
+  safariIphone:
+    "Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1",
+  safariMac:
+    "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Safari/605.1.15",
+  firefoxLinux:
+    "Mozilla/5.0 (X11; Ubuntu; Linux x86_64; rv:125.0) Gecko/20100101 Firefox/125.0",
+  chromeAndroid:
+    "Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36",
+  samsungTablet:
+    "Mozilla/5.0 (Linux; Android 13; SM-X710) AppleWebKit/537.36 (KHTML, like Gecko) SamsungBrowser/24.0 Chrome/117.0.0.0 Safari/537.36",
+  googlebot:
+    "Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)",
+  curl: "curl/8.4.0",
+  unknownCrawler: "AcmeCrawler/1.0 (+https://acme.example/crawler)",
+};
+
+describe("parseUserAgent", () => {
+  it("should parse desktop browsers", () => {
+    expect(parseUserAgent(agents.chromeWindows)).toEqual({
+      browser: "Chrome",
+      browser_version: "124",
+      os: "Windows",
+      os_version: "10",
+      device_type: "desktop",
+      is_bot: false,
+    });
+    expect(parseUserAgent(agents.safariMac)).toMatchObject({
+      browser: "Safari",
+      browser_version: "17",
+      os: "macOS",
+      os_version: "10.15.7",
+      device_type: "desktop",
+    });
+    expect(parseUserAgent(agents.firefoxLinux)).toMatchObject({
+      browser: "Firefox",
+      os: "Linux",
+      device_type: "desktop",
+    });
+  });
+
+  it("should tell Chromium derivatives from Chrome", () => {
+    expect(parseUserAgent(agents.edge).browser).toBe("Edge");
+    expect(parseUserAgent(agents.samsungTablet).browser).toBe(
+      "Samsung Internet",
+    );
+  });
+
+  it("should classify mobile and tablet devices", () => {
+    expect(parseUserAgent(agents.safariIphone)).toEqual({
+      browser: "Safari",
+      browser_version: "17",
+      os: "iOS",
+      os_version: "17.4",
+      device_type: "mobile",
+      is_bot: false,
+    });
+    expect(parseUserAgent(agents.chromeAndroid)).toMatchObject({
+      os: "Android",
+      os_version: "14",
+      device_type: "mobile",
+    });
+    expect(parseUserAgent(agents.samsungTablet).device_type).toBe("tablet");
+  });
+
+  it("should flag known crawlers and tools by name", () => {
+    expect(parseUserAgent(agents.googlebot)).toMatchObject({
+      is_bot: true,
+      bot: "Googlebot",
+      device_type: "bot",
+    });
+    expect(parseUserAgent(agents.curl)).toMatchObject({
+      is_bot: true,
+      bot: "curl",
+    });
+  });
+
+  it("should flag self-described crawlers without a name", () => {
+    const info = parseUserAgent(agents.unknownCrawler);
+
+    expect(info.is_bot).toBe(true);
+    expect(info.bot).toBeUndefined();
+  });
+
+  it("should flag unnamed bot tokens but not devices named like them", () => {
+    expect(parseUserAgent("AcmeBot/2.0").is_bot).toBe(true);
+    expect(
+      parseUserAgent("Mozilla/5.0 (compatible; AcmeBot; +https://acme.example)")
+        .is_bot,
+    ).toBe(true);
+
+    const phone = parseUserAgent(
+      "Mozilla/5.0 (Linux; Android 10; CUBOT X30) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36",
+    );
+    expect(phone.is_bot).toBe(false);
+    expect(phone.device_type).toBe("mobile");
+  });
+
+  it("should leave unrecognized agents unclassified", () => {
+    expect(parseUserAgent("something/1.0")).toEqual({
+      device_type: "unknown",
+      is_bot: false,
+    });
+  });
+});
+
+describe("createUserAgentParser", () => {
+  it("should return the same result as parsing directly", () => {
+    const parse = createUserAgentParser();
+
+    expect(parse(agents.edge)).toEqual(parseUserAgent(agents.edge));
+    expect(parse(agents.edge)).toEqual(parseUserAgent(agents.edge));
+  });
+
+  it("should hand out copies of cached results", () => {
+    const parse = createUserAgentParser();
+
+    parse(agents.curl).bot = "changed";
+    expect(parse(agents.curl).bot).toBe("curl");
+  });
+});